@@ -0,0 +1,129 @@
+import { Util } from '../core';
+import { DomEvent, DomUtil } from '../dom';
+import type { Map } from '../map';
+import type { Layer } from '../map-elem';
+import { Control, type ControlPosition } from './Control.js';
+
+const ukrainianFlag = '<svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="12" height="8" viewBox="0 0 12 8" class="leaflet-attribution-flag"><path fill="#4C7BE1" d="M0 0h12v4H0z"/><path fill="#FFD500" d="M0 4h12v3H0z"/><path fill="#E0BC00" d="M0 7h12v1H0z"/></svg>';
+
+export interface AttributionOptions {
+	/**
+	 * The HTML text shown before the attributions. Pass `false` to disable. A link
+	 * to the Leaflet website by default.
+	 */
+	prefix: string | false;
+}
+
+/**
+ * The attribution control allows you to display attribution data in a small text box on
+ * a map. It keeps track of the [`attribution`](#layer-attribution) of every layer on the
+ * map, so the displayed text is updated as layers are added and removed. It is placed in
+ * the bottom right corner of the map unless another position is given. Extends `Control`.
+ *
+ * ```js
+ * new Attribution({prefix: 'My App'}, 'bottomleft').addTo(map);
+ * ```
+ */
+export class Attribution extends Control {
+
+	declare options: AttributionOptions;
+
+	// Maps attribution text to the number of layers (or explicit calls) contributing it
+	_attributions: Dict<number> = Object.create(null);
+
+	constructor(options?: Partial<AttributionOptions>, position: ControlPosition = 'bottomright') {
+		super(position);
+
+		Util.setOptions(this, options, {
+			prefix: `<a href="https://leafletjs.com" title="A JavaScript library for interactive maps">${ukrainianFlag}Leaflet</a>`,
+		});
+	}
+
+	onAdd(map: Map): HTMLElement {
+		const container = DomUtil.create('div', 'leaflet-control-attribution');
+
+		DomEvent.disableClickPropagation(container);
+
+		// Pick up the layers which were added to the map before the control
+		for (const layer of Object.values(map._layers)) {
+			this.addAttribution(layer.getAttribution());
+		}
+
+		map.on('layeradd', this._onLayerAdd, this);
+		map.on('layerremove', this._onLayerRemove, this);
+
+		this._container = container;
+		this._update();
+
+		return container;
+	}
+
+	onRemove(map: Map): void {
+		map.off('layeradd', this._onLayerAdd, this);
+		map.off('layerremove', this._onLayerRemove, this);
+
+		// The map's layers will be counted again if the control is re-added
+		this._attributions = Object.create(null);
+	}
+
+	/**
+	 * The HTML text shown before the attributions. Pass `false` to disable.
+	 */
+	setPrefix(prefix: string | false): this {
+		this.options.prefix = prefix;
+		this._update();
+		return this;
+	}
+
+	/**
+	 * Adds an attribution text (e.g. `'&copy; OpenStreetMap contributors'`). Attributions
+	 * are reference-counted, so the text stays visible until it has been removed as many
+	 * times as it was added.
+	 */
+	addAttribution(text: string | undefined): this {
+		if (!text) { return this; }
+
+		this._attributions[text] = (this._attributions[text] || 0) + 1;
+		this._update();
+
+		return this;
+	}
+
+	// Removes an attribution text.
+	removeAttribution(text: string | undefined): this {
+		if (!text || !this._attributions[text]) { return this; }
+
+		if (--this._attributions[text] === 0) {
+			delete this._attributions[text];
+		}
+		this._update();
+
+		return this;
+	}
+
+	_onLayerAdd(e: { layer: Layer }): void {
+		this.addAttribution(e.layer.getAttribution());
+	}
+
+	_onLayerRemove(e: { layer: Layer }): void {
+		this.removeAttribution(e.layer.getAttribution());
+	}
+
+	_update(): void {
+		if (!this._map || !this._container) { return; }
+
+		const
+			attribs = Object.keys(this._attributions),
+			prefixAndAttribs: string[] = [];
+
+		if (this.options.prefix) {
+			prefixAndAttribs.push(this.options.prefix);
+		}
+		if (attribs.length) {
+			prefixAndAttribs.push(attribs.join(', '));
+		}
+
+		this._container.innerHTML = prefixAndAttribs.join(' <span aria-hidden="true">|</span> ');
+	}
+
+}
@@ -0,0 +1,467 @@
+import { Util } from '../core';
+import { DomEvent, DomUtil } from '../dom';
+import type { Map } from '../map';
+import type { Layer } from '../map-elem';
+import { Control, type ControlPosition } from './Control.js';
+
+export interface LayersOptions {
+	/**
+	 * If `true`, the control will be collapsed into an icon and expanded on mouse hover,
+	 * touch, or keyboard activation. True by default.
+	 */
+	collapsed: boolean;
+	/**
+	 * If `true`, the control will assign zIndexes in increasing order to all of its layers
+	 * so that the order is preserved when switching them on/off. True by default.
+	 */
+	autoZIndex: boolean;
+	/**
+	 * If `true`, the base layers in the control will be hidden when there is only one.
+	 * False by default.
+	 */
+	hideSingleBase: boolean;
+	/**
+	 * Whether to sort the layers. When `false`, layers will keep the order in which they
+	 * were added to the control. False by default.
+	 */
+	sortLayers: boolean;
+	/**
+	 * A compare function that will be used for sorting the layers, when `sortLayers` is
+	 * `true`. The function receives both the layer instances and their names. Sorts the
+	 * layers alphabetically by name by default.
+	 */
+	sortFunction: (layerA: Layer, layerB: Layer, nameA: string, nameB: string) => number;
+}
+
+/**
+ * Data for the `baselayerchange`, `overlayadd` and `overlayremove` events fired on the
+ * map by a `Layers` control.
+ */
+export interface LayersControlEvent {
+	/**
+	 * The layer that was added or removed.
+	 */
+	layer: Layer;
+	/**
+	 * The name of the layer that was added or removed.
+	 */
+	name: string;
+	/**
+	 * Whether the layer is an overlay (checkbox) rather than a base layer (radio button).
+	 */
+	overlay: boolean;
+}
+
+interface LayersControlEntry extends LayersControlEvent {
+	input?: HTMLInputElement;
+}
+
+/**
+ * The layers control gives users the ability to switch between different base layers and
+ * switch overlays on/off. Base layers are mutually exclusive (only one can be visible on
+ * your map at a time) while any number of overlays can be visible at once. The control
+ * stays in sync with layers added or removed via `map.addLayer()`/`map.removeLayer()`.
+ * Extends `Control`.
+ *
+ * ```js
+ * const baseLayers = {
+ *     'Mapbox': mapbox,
+ *     'OpenStreetMap': osm,
+ * };
+ * const overlays = {
+ *     'Marker': marker,
+ *     'Roads': roadsLayer,
+ * };
+ *
+ * new Layers(baseLayers, overlays).addTo(map);
+ * ```
+ *
+ * The `baseLayers` and `overlays` parameters are objects with layer names as keys and
+ * `Layer` objects as values. The layer names can contain HTML, which allows you to add
+ * additional styling to the items. The control is placed in the top right corner of the
+ * map unless another position is given after the options.
+ *
+ * @event baselayerchange: LayersControlEvent
+ * Fired on the map when the base layer is changed through the control.
+ *
+ * @event overlayadd: LayersControlEvent
+ * Fired on the map when an overlay is selected through the control.
+ *
+ * @event overlayremove: LayersControlEvent
+ * Fired on the map when an overlay is deselected through the control.
+ */
+export class Layers extends Control {
+
+	declare options: LayersOptions;
+
+	_layers: LayersControlEntry[] = [];
+	_lastZIndex = 0;
+	_handlingClick = false;
+	_preventClick = false;
+	_section: HTMLElement | undefined;
+	_layersLink: HTMLAnchorElement | undefined;
+	_baseLayersList: HTMLElement | undefined;
+	_separator: HTMLElement | undefined;
+	_overlaysList: HTMLElement | undefined;
+
+	constructor(
+		baseLayers?: Dict<Layer>,
+		overlays?: Dict<Layer>,
+		options?: Partial<LayersOptions>,
+		position: ControlPosition = 'topright',
+	) {
+		super(position);
+
+		Util.setOptions(this, options, {
+			collapsed: true,
+			autoZIndex: true,
+			hideSingleBase: false,
+			sortLayers: false,
+			sortFunction: (_layerA, _layerB, nameA, nameB) => nameA < nameB ? -1 : (nameB < nameA ? 1 : 0),
+		});
+
+		for (const [name, layer] of Object.entries(baseLayers || {})) {
+			this._addLayer(layer, name);
+		}
+		for (const [name, layer] of Object.entries(overlays || {})) {
+			this._addLayer(layer, name, true);
+		}
+	}
+
+	onAdd(map: Map): HTMLElement {
+		const container = this._initLayout(map);
+
+		this._update();
+
+		map.on('zoomend', this._checkDisabledLayers, this);
+
+		for (const obj of this._layers) {
+			obj.layer.on('add remove', this._onLayerChange, this);
+		}
+
+		return container;
+	}
+
+	addTo(map: Map): this {
+		super.addTo(map);
+		// Trigger expand after the control has been inserted into the DOM so that it now
+		// has an actual height
+		return this._expandIfNotCollapsed();
+	}
+
+	onRemove(map: Map): void {
+		map.off('zoomend', this._checkDisabledLayers, this);
+		map.off('click', this.collapse, this);
+
+		for (const obj of this._layers) {
+			obj.layer.off('add remove', this._onLayerChange, this);
+		}
+	}
+
+	// Adds a base layer (radio button entry) with the given name to the control.
+	addBaseLayer(layer: Layer, name: string): this {
+		this._addLayer(layer, name);
+		return this._update();
+	}
+
+	// Adds an overlay (checkbox entry) with the given name to the control.
+	addOverlay(layer: Layer, name: string): this {
+		this._addLayer(layer, name, true);
+		return this._update();
+	}
+
+	// Remove the given layer from the control.
+	removeLayer(layer: Layer): this {
+		layer.off('add remove', this._onLayerChange, this);
+
+		const obj = this._getLayer(layer);
+
+		if (obj) {
+			this._layers.splice(this._layers.indexOf(obj), 1);
+		}
+
+		return this._update();
+	}
+
+	// Expand the control container if collapsed.
+	expand(): this {
+		const
+			map = this._map!, // TODO: null safety
+			container = this._container!, // TODO: null safety
+			section = this._section!; // TODO: null safety
+
+		container.classList.add('leaflet-control-layers-expanded');
+		section.style.height = '';
+
+		const acceptableHeight = map.getSize().y - (container.offsetTop + 50);
+
+		if (acceptableHeight < section.clientHeight) {
+			section.classList.add('leaflet-control-layers-scrollbar');
+			section.style.height = `${acceptableHeight}px`;
+		} else {
+			section.classList.remove('leaflet-control-layers-scrollbar');
+		}
+
+		this._checkDisabledLayers();
+
+		return this;
+	}
+
+	// Collapse the control container if expanded.
+	collapse(): this {
+		this._container?.classList.remove('leaflet-control-layers-expanded');
+		return this;
+	}
+
+	_initLayout(map: Map): HTMLElement {
+		const
+			className = 'leaflet-control-layers',
+			container = this._container = DomUtil.create('div', className),
+			collapsed = this.options.collapsed;
+
+		// Makes this work on IE touch devices by stopping it from firing a mouseout event
+		// when the touch is released
+		container.setAttribute('aria-haspopup', 'true');
+
+		DomEvent.disableClickPropagation(container);
+		DomEvent.disableScrollPropagation(container);
+
+		const section = this._section = DomUtil.create('fieldset', `${className}-list`);
+
+		if (collapsed) {
+			map.on('click', this.collapse, this);
+
+			DomEvent.on(container, {
+				mouseenter: this._expandSafely,
+				mouseleave: this.collapse,
+			}, this);
+		}
+
+		const link = this._layersLink = DomUtil.create('a', `${className}-toggle`, container) as HTMLAnchorElement;
+
+		link.href = '#';
+		link.title = 'Layers';
+		link.setAttribute('role', 'button');
+		link.setAttribute('aria-label', 'Layers');
+		link.innerHTML = '<svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20"><path fill="none" stroke="currentColor" stroke-width="1.5" stroke-linejoin="round" d="M10 3 2 7.5l8 4.5 8-4.5zM2 11l8 4.5 8-4.5"/></svg>';
+
+		DomEvent.on(link, {
+			keydown(this: Layers, e: KeyboardEvent) {
+				if (e.key === 'Enter' || e.key === ' ') {
+					DomEvent.preventDefault(e);
+					this._expandSafely();
+				}
+			},
+			// Certain screen readers intercept the key event and instead send a click event
+			click(this: Layers, e: MouseEvent) {
+				DomEvent.preventDefault(e);
+				this._expandSafely();
+			},
+		}, this);
+
+		// Escape collapses the list again and hands focus back to the toggle button
+		DomEvent.on(container, 'keydown', (e: KeyboardEvent) => {
+			if (e.key === 'Escape' && this.options.collapsed && container.classList.contains(`${className}-expanded`)) {
+				this.collapse();
+				link.focus();
+			}
+		});
+
+		this._baseLayersList = DomUtil.create('div', `${className}-base`, section);
+		this._separator = DomUtil.create('div', `${className}-separator`, section);
+		this._overlaysList = DomUtil.create('div', `${className}-overlays`, section);
+
+		container.appendChild(section);
+
+		return container;
+	}
+
+	_getLayer(layer: Layer): LayersControlEntry | undefined {
+		return this._layers.find(obj => obj.layer === layer);
+	}
+
+	_addLayer(layer: Layer, name: string, overlay = false): void {
+		if (this._map) {
+			layer.on('add remove', this._onLayerChange, this);
+		}
+
+		this._layers.push({ layer, name, overlay });
+
+		if (this.options.sortLayers) {
+			this._layers.sort((a, b) => this.options.sortFunction(a.layer, b.layer, a.name, b.name));
+		}
+
+		if (this.options.autoZIndex && layer.setZIndex) {
+			layer.setZIndex(++this._lastZIndex);
+		}
+
+		this._expandIfNotCollapsed();
+	}
+
+	_update(): this {
+		if (!this._map || !this._container) { return this; }
+
+		// TODO: null safety
+		const
+			baseLayersList = this._baseLayersList!,
+			overlaysList = this._overlaysList!;
+
+		DomUtil.removeAllChildren(baseLayersList);
+		DomUtil.removeAllChildren(overlaysList);
+
+		let
+			baseLayersPresent = false,
+			overlaysPresent = false,
+			baseLayersCount = 0;
+
+		for (const obj of this._layers) {
+			this._addItem(obj);
+			overlaysPresent ||= obj.overlay;
+			baseLayersPresent ||= !obj.overlay;
+			baseLayersCount += obj.overlay ? 0 : 1;
+		}
+
+		// Hide base layers section if there's only one layer
+		if (this.options.hideSingleBase) {
+			baseLayersPresent &&= baseLayersCount > 1;
+			baseLayersList.style.display = baseLayersPresent ? '' : 'none';
+		}
+
+		this._separator!.style.display = overlaysPresent && baseLayersPresent ? '' : 'none';
+
+		this._checkDisabledLayers();
+
+		return this;
+	}
+
+	_onLayerChange(e: { type: string; target: Layer }): void {
+		if (!this._handlingClick) {
+			this._update();
+		}
+
+		const obj = this._getLayer(e.target);
+
+		if (!obj || !this._map) { return; }
+
+		const type = obj.overlay
+			? (e.type === 'add' ? 'overlayadd' : 'overlayremove')
+			: (e.type === 'add' ? 'baselayerchange' : undefined);
+
+		if (type) {
+			this._map.fire(type, {
+				layer: obj.layer,
+				name: obj.name,
+				overlay: obj.overlay,
+			} satisfies LayersControlEvent);
+		}
+	}
+
+	_addItem(obj: LayersControlEntry): HTMLLabelElement {
+		const
+			label = document.createElement('label'),
+			input = document.createElement('input'),
+			name = document.createElement('span'),
+			// Helps prevent layer control flicker when checkboxes are disabled
+			holder = document.createElement('span');
+
+		input.type = obj.overlay ? 'checkbox' : 'radio';
+		input.className = 'leaflet-control-layers-selector';
+		input.defaultChecked = this._map!.hasLayer(obj.layer); // TODO: null safety
+
+		if (!obj.overlay) {
+			input.name = `leaflet-base-layers_${Util.stamp(this)}`;
+		}
+
+		obj.input = input;
+
+		DomEvent.on(input, 'click', this._onInputClick, this);
+
+		name.innerHTML = ` ${obj.name}`;
+
+		label.appendChild(holder);
+		holder.appendChild(input);
+		holder.appendChild(name);
+
+		// TODO: null safety
+		(obj.overlay ? this._overlaysList! : this._baseLayersList!).appendChild(label);
+
+		return label;
+	}
+
+	_onInputClick(e: MouseEvent): void {
+		// Expanding the control on mobile with a click can cause adding a layer - we don't want this
+		if (this._preventClick) {
+			return;
+		}
+
+		const
+			map = this._map!, // TODO: null safety
+			addedLayers: Layer[] = [],
+			removedLayers: Layer[] = [];
+
+		this._handlingClick = true;
+
+		for (const { input, layer } of this._layers) {
+			if (!input) { continue; }
+
+			if (input.checked) {
+				addedLayers.push(layer);
+			} else {
+				removedLayers.push(layer);
+			}
+		}
+
+		// Remove all old layers before adding new ones, otherwise a base layer that is
+		// also part of the new selection could be removed right after being re-added
+		for (const layer of removedLayers) {
+			if (map.hasLayer(layer)) {
+				map.removeLayer(layer);
+			}
+		}
+		for (const layer of addedLayers) {
+			if (!map.hasLayer(layer)) {
+				map.addLayer(layer);
+			}
+		}
+
+		this._handlingClick = false;
+
+		this._refocusOnMap(e);
+	}
+
+	_checkDisabledLayers(): void {
+		if (!this._map) { return; }
+
+		const zoom = this._map._zoom;
+
+		for (const { input, layer } of this._layers) {
+			if (!input) { continue; }
+
+			const { minZoom, maxZoom } = layer.options as { minZoom?: number; maxZoom?: number; };
+
+			input.disabled = (minZoom !== undefined && zoom < minZoom) ||
+			                 (maxZoom !== undefined && zoom > maxZoom);
+		}
+	}
+
+	_expandIfNotCollapsed(): this {
+		if (this._map && !this.options.collapsed) {
+			this.expand();
+		}
+		return this;
+	}
+
+	_expandSafely(): void {
+		const section = this._section!; // TODO: null safety
+
+		this._preventClick = true;
+		DomEvent.on(section, 'click', DomEvent.preventDefault);
+		this.expand();
+
+		setTimeout(() => {
+			DomEvent.off(section, 'click', DomEvent.preventDefault);
+			this._preventClick = false;
+		});
+	}
+
+}
@@ -2,7 +2,7 @@
 import { DomUtil } from '../dom';
 import { Point } from '../geom';
 import type { Map } from '../map';
-import { Control } from './Control.js';
+import { Control, type ControlPosition } from './Control.js';
 
 /**
  * A simple scale control that shows the scale of the current center of screen in metric (m/km) and imperial (mi/ft) systems. Extends `Control`.
@@ -14,11 +14,6 @@ import { Control } from './Control.js';
 export class Scale extends Control {
 
 	options = {
-		// @option position: String = 'bottomleft'
-		// The position of the control (one of the map corners). Possible values are `'topleft'`,
-		// `'topright'`, `'bottomleft'` or `'bottomright'`
-		position: 'bottomleft',
-
 		// @option maxWidth: Number = 100
 		// Maximum width of the control in pixels. The width is set dynamically to show round values (e.g. 100, 200, 500).
 		maxWidth: 100,
@@ -39,6 +34,10 @@ export class Scale extends Control {
 	_mScale: HTMLElement | undefined;
 	_iScale: HTMLElement | undefined;
 
+	constructor(position: ControlPosition = 'bottomleft') {
+		super(position);
+	}
+
 	onAdd(map: Map): HTMLElement {
 		const
 			className = 'leaflet-control-scale',
@@ -47,7 +46,7 @@ export class Scale extends Control {
 		this._addScales(`${className}-line`, container);
 
 		map.on(this.options.updateWhenIdle ? 'moveend' : 'move', this._update, this);
-		map.whenReady(this._update, this);
+		this._update();
 
 		return container;
 	}
@@ -2,7 +2,7 @@
 import type { HandlerFn } from '../core';
 import { DomEvent, DomUtil } from '../dom';
 import type { Map } from '../map';
-import { Control } from './Control.js';
+import { Control, type ControlPosition } from './Control.js';
 
 /**
  * A basic zoom control with two buttons (zoom in and zoom out). Extends `Control`.
@@ -10,11 +10,6 @@ import { Control } from './Control.js';
 export class Zoom extends Control {
 
 	options = {
-		// @option position: String = 'topleft'
-		// The position of the control (one of the map corners). Possible values are `'topleft'`,
-		// `'topright'`, `'bottomleft'` or `'bottomright'`
-		position: 'topleft',
-
 		// @option zoomInText: String = '<span aria-hidden="true">+</span>'
 		// The text set on the 'zoom in' button.
 		zoomInText: '<span aria-hidden="true">+</span>',
@@ -36,6 +31,10 @@ export class Zoom extends Control {
 	_zoomInButton: HTMLElement | undefined;
 	_zoomOutButton: HTMLElement | undefined;
 
+	constructor(position: ControlPosition = 'topleft') {
+		super(position);
+	}
+
 	onAdd(map: Map): HTMLElement {
 		const
 			zoomName = 'leaflet-control-zoom',
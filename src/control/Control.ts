@@ -1,7 +1,17 @@
 
-import { Map } from '../map';
+import type { Map } from '../map';
 
-export type ControlPosition = 'topleft' | 'topright' | 'bottomleft' | 'bottomright';
+/**
+ * Where a control is placed on the map: one of the four corners, or centered along the
+ * top or bottom edge.
+ */
+export type ControlPosition =
+	| 'topleft'
+	| 'topcenter'
+	| 'topright'
+	| 'bottomleft'
+	| 'bottomcenter'
+	| 'bottomright';
 
 /**
  * L.Control is a base class for implementing map controls. Handles positioning.
@@ -57,17 +67,18 @@ export abstract class Control {
 		const
 			container = this._container = this.onAdd(map),
 		    pos = this.getPosition(),
-		    corner = map._controlCorners[pos];
+		    corner = map.controlCorner(pos);
 
 		container.classList.add('leaflet-control');
 
-		if (pos.includes('bottom')) {
+		// Bottom controls stack upwards so the first one added stays closest to the edge
+		if (pos.startsWith('bottom')) {
 			corner.insertBefore(container, corner.firstChild);
 		} else {
 			corner.appendChild(container);
 		}
 
-		this._map.on('unload', this.remove, this);
+		this._map.on('dispose', this.remove, this, true);
 
 		return this;
 	}
@@ -85,7 +96,7 @@ export abstract class Control {
 			this.onRemove(this._map);
 		}
 
-		this._map.off('unload', this.remove, this);
+		this._map.off('dispose', this.remove, this);
 		this._map = undefined;
 
 		return this;
@@ -1,4 +1,4 @@
-import { BoxZoom, Circle, Drag, Keyboard, LatLng, Map, Marker, MarkerDrag, SVG, TapHold, TileLayer, TouchZoom, defaultMarkerIcon, enableDoubleClickZoom, enableScrollWheelZoom, getCenterAndZoomForGeolocation } from '.';
+import { Attribution, BoxZoom, Circle, Drag, Keyboard, LatLng, Map, Marker, MarkerDrag, SVG, TapHold, TileLayer, TouchZoom, Zoom, defaultMarkerIcon, enableDoubleClickZoom, enableScrollWheelZoom, getCenterAndZoomForGeolocation } from '.';
 import defaultMarkerURL from '../assets/marker.svg';
 import './demo-app.css';
 
@@ -12,7 +12,13 @@ const map = new Map(
         minZoom: 0,
         maxZoom: 18,
     },
-).addLayer(new TileLayer('https://tile.openstreetmap.org/{z}/{x}/{y}.png'))
+).addLayer(new TileLayer('https://tile.openstreetmap.org/{z}/{x}/{y}.png', {
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+}));
+
+// Add controls
+new Zoom().addTo(map);
+new Attribution().addTo(map);
 
 // Add behaviors
 new Drag(map);
@@ -0,0 +1,25 @@
+/**
+ * An ellipsoid of revolution approximating the shape of the Earth, used by the ellipsoidal
+ * projections (e.g. `transverseMercator()`).
+ */
+export interface Ellipsoid {
+	/** Semi-major axis (equatorial radius), in meters. */
+	readonly a: number;
+	/** Flattening, `(a - b) / a` where `b` is the semi-minor (polar) axis. */
+	readonly f: number;
+}
+
+/** The ellipsoid of the GPS datum, used by most global CRSs. */
+export const WGS84: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
+
+/** The ellipsoid of the ETRS89 and NAD83 datums. Differs from WGS84 by 0.1 mm. */
+export const GRS80: Ellipsoid = { a: 6378137, f: 1 / 298.257222101 };
+
+/** The ellipsoid of the NAD27 datum. */
+export const Clarke1866: Ellipsoid = { a: 6378206.4, f: 1 / 294.978698214 };
+
+/** The ellipsoid of the OSGB36 datum (British National Grid). */
+export const Airy1830: Ellipsoid = { a: 6377563.396, f: 1 / 299.3249646 };
+
+/** The ellipsoid of the ED50 datum, also known as the Hayford ellipsoid. */
+export const International1924: Ellipsoid = { a: 6378388, f: 1 / 297 };
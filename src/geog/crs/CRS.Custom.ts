@@ -0,0 +1,114 @@
+import { Bounds, Point, Transformation } from '../../geom';
+import type { Projection } from '../projection';
+import { Earth } from './CRS.Earth.js';
+
+export interface CustomCRSOptions {
+	/**
+	 * Size of a pixel at each zoom level, from 0 up, in projected units (e.g. meters).
+	 * Must be decreasing. Either this or `scales` is required.
+	 */
+	resolutions: readonly number[] | undefined;
+	/**
+	 * Number of pixels per projected unit at each zoom level, from 0 up, i.e. the inverse
+	 * of the resolutions. Must be increasing.
+	 */
+	scales: readonly number[] | undefined;
+	/**
+	 * Projected coordinates of the top left corner of the tile grid, where pixel
+	 * coordinates (and tile coordinates) are 0. The top left corner of `bounds` (or else
+	 * of the bounds of the projection) by default.
+	 */
+	origin: Point | undefined;
+	/**
+	 * The projected bounds of the tile grid, outside of which there are no tiles. The CRS
+	 * is infinite if they are not given. Undefined by default.
+	 */
+	bounds: Bounds | undefined;
+}
+
+/**
+ * Creates a CRS for a tile grid with arbitrary resolutions, like those of tile services in
+ * national projected coordinate systems (and of the `Proj4Leaflet` plugin), rather than the
+ * `256 * 2^zoom` pixels per world of most CRSs. Zoom level `i` has the `i`th resolution,
+ * and fractional zoom levels are interpolated geometrically between those around them (and
+ * extrapolated with the ratio of the last two beyond the last one), so that zooming
+ * animations scale evenly. Longitudes don't wrap around.
+ *
+ * ```js
+ * // Dutch national tile grid (EPSG:28992)
+ * const rd = customCRS('EPSG:28992', rdNew, {
+ *     origin: new Point(-285401.92, 903401.92),
+ *     resolutions: [3440.64, 1720.32, 860.16, 430.08, 215.04, 107.52, 53.76, 26.88, 13.44],
+ *     bounds: new Bounds(new Point(-285401.92, 22598.08), new Point(595401.92, 903401.92)),
+ * });
+ *
+ * const map = new Map(el, { crs: rd, maxZoom: 8 });
+ * ```
+ *
+ * Note that the map doesn't know about the number of resolutions: set its `maxZoom` (and
+ * `minZoom`) accordingly.
+ */
+export function customCRS(code: string, projection: Projection, options: Partial<CustomCRSOptions>) {
+	const
+		{ resolutions, bounds } = options,
+		scales = resolutions ? resolutions.map(r => 1 / r) : options.scales?.slice();
+
+	if (!scales?.length) {
+		throw new Error('A custom CRS needs either resolutions or scales');
+	}
+
+	for (let i = 1; i < scales.length; i++) {
+		if (!(scales[i] > scales[i - 1])) {
+			throw new Error('The resolutions of a custom CRS must decrease (or its scales increase) with zoom');
+		}
+	}
+
+	// Interpolation needs two levels; a single one is extended as usual, doubling the scale
+	if (scales.length === 1) {
+		scales.push(scales[0] * 2);
+	}
+
+	const
+		last = scales.length - 1,
+		origin = options.origin || (({ min, max }) => new Point(min.x, max.y))(bounds || projection.bounds);
+
+	return {
+		...Earth,
+
+		wrapLng: undefined,
+		code,
+		projection,
+		transformation: new Transformation(1, -origin.x, -1, origin.y),
+		infinite: !bounds,
+
+		scale(zoom: number): number {
+			const i = Math.max(0, Math.min(Math.floor(zoom), last - 1));
+
+			// Integer zoom levels return the given scales exactly
+			return zoom === i || zoom === i + 1
+				? scales[zoom]
+				: scales[i] * Math.pow(scales[i + 1] / scales[i], zoom - i);
+		},
+
+		zoom(scale: number): number {
+			let i = 0;
+
+			while (i < last - 1 && scale >= scales[i + 1]) { i++; }
+
+			return scale === scales[i] || scale === scales[i + 1]
+				? scales.indexOf(scale)
+				: i + Math.log(scale / scales[i]) / Math.log(scales[i + 1] / scales[i]);
+		},
+
+		getProjectedBounds(zoom: number): Bounds | undefined {
+			if (!bounds) { return; }
+
+			const s = this.scale(zoom);
+
+			return new Bounds(
+				this.transformation.transform(bounds.min, s),
+				this.transformation.transform(bounds.max, s),
+			);
+		},
+	} as const;
+}
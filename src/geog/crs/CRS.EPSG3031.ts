@@ -0,0 +1,17 @@
+import { Bounds, Point } from '../../geom';
+import { polarStereographic } from '../projection';
+import { projectedCRS } from './CRS.Projected.js';
+
+/**
+ * Antarctic Polar Stereographic, for maps of the Antarctic. Uses a polar stereographic
+ * projection with a true scale at 71°S and the Greenwich meridian pointing up.
+ *
+ * Has the same tile grid as `EPSG3413`.
+ */
+export const EPSG3031 = projectedCRS(
+	'EPSG:3031',
+	polarStereographic({
+		latitudeOfTrueScale: -71,
+		bounds: new Bounds(new Point(-4194304, -4194304), new Point(4194304, 4194304)),
+	}),
+);
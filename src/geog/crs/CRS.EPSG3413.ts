@@ -0,0 +1,20 @@
+import { Bounds, Point } from '../../geom';
+import { polarStereographic } from '../projection';
+import { projectedCRS } from './CRS.Projected.js';
+
+/**
+ * NSIDC Sea Ice Polar Stereographic North, for maps of the Arctic. Uses a polar
+ * stereographic projection with a true scale at 70°N and the 45°W meridian pointing down.
+ *
+ * At zoom level 0, a single 256x256 pixel tile covers the square from -4194304 to 4194304
+ * meters on both axes, as in the tile grids of e.g. NASA GIBS (whose level 0 has the
+ * resolution of zoom 2).
+ */
+export const EPSG3413 = projectedCRS(
+	'EPSG:3413',
+	polarStereographic({
+		latitudeOfTrueScale: 70,
+		centralMeridian: -45,
+		bounds: new Bounds(new Point(-4194304, -4194304), new Point(4194304, 4194304)),
+	}),
+);
@@ -0,0 +1,32 @@
+import { Transformation } from '../../geom';
+import type { Projection } from '../projection';
+import { Earth } from './CRS.Earth.js';
+
+/**
+ * Creates a CRS for maps of part of the Earth in a projected coordinate system, e.g.
+ * `projectedCRS('EPSG:27700', bng)`. By default, the bounds of the projection fit in a
+ * single 256x256 pixel tile at zoom level 0, with their top left corner as the origin.
+ * Pass a `transformation` for other tile grids. Unlike with global CRSs, longitudes don't
+ * wrap around.
+ */
+export function projectedCRS(
+	code: string,
+	projection: Projection,
+	transformation = fitBounds(projection),
+) {
+	return {
+		...Earth,
+
+		// Projected coordinate systems cover part of the Earth, so tiles shouldn't repeat
+		wrapLng: undefined,
+		code,
+		projection,
+		transformation,
+	} as const;
+}
+
+function fitBounds({ bounds: { min, max } }: Projection): Transformation {
+	const scale = 1 / Math.max(max.x - min.x, max.y - min.y);
+
+	return new Transformation(scale, -min.x * scale, -scale, max.y * scale);
+}
@@ -0,0 +1,18 @@
+import { utmProjection } from '../projection';
+import { projectedCRS } from './CRS.Projected.js';
+
+/**
+ * Creates the CRS of a zone (from 1 to 60) of the Universal Transverse Mercator system on
+ * the WGS84 datum, in the northern hemisphere (EPSG:32601 to EPSG:32660) or in the
+ * southern one (EPSG:32701 to EPSG:32760). See `utmProjection()` and `utmZone()`.
+ *
+ * ```js
+ * const map = new Map(el, { crs: utmCRS(utmZone(site)) });
+ * ```
+ */
+export function utmCRS(zone: number, south = false) {
+	return projectedCRS(
+		`EPSG:${south ? 327 : 326}${zone < 10 ? '0' : ''}${zone}`,
+		utmProjection(zone, south),
+	);
+}
@@ -1,6 +1,11 @@
+export * from './CRS.Custom.js';
+export * from './CRS.EPSG3031.js';
 export * from './CRS.EPSG3395.js';
+export * from './CRS.EPSG3413.js';
 export * from './CRS.EPSG3857.js';
 export * from './CRS.EPSG4326.js';
 export * from './CRS.Earth.js';
+export * from './CRS.Projected.js';
 export * from './CRS.Simple.js';
+export * from './CRS.UTM.js';
 export * from './CRS.js';
@@ -1,2 +1,3 @@
+export * from './Ellipsoid.js';
 export { LatLng } from './LatLng.js';
 export { LatLngBounds } from './LatLngBounds.js';
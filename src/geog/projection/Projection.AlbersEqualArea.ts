@@ -0,0 +1,148 @@
+import { LatLng, WGS84, type Ellipsoid } from '..';
+import { Util } from '../../core';
+import { Point, type Bounds } from '../../geom';
+import { conicBounds, d, lambda, m } from './conic.js';
+import type { Projection } from './index.js';
+
+export interface AlbersEqualAreaParams {
+	/**
+	 * The latitudes where the scale is true, in degrees. Usually two, placed at a sixth
+	 * of the latitude range of the mapped region from its edges.
+	 */
+	standardParallels: readonly [number] | readonly [number, number];
+	/**
+	 * The ellipsoid the geographical coordinates refer to. `WGS84` by default.
+	 */
+	ellipsoid: Ellipsoid;
+	/**
+	 * Longitude of the meridian which is vertical, in degrees. 0 by default.
+	 */
+	centralMeridian: number;
+	/**
+	 * Latitude where the projected `y` coordinate is `falseNorthing`, in degrees. 0 by default.
+	 */
+	latitudeOfOrigin: number;
+	/**
+	 * Projected `x` coordinate of the central meridian, in meters. 0 by default.
+	 */
+	falseEasting: number;
+	/**
+	 * Projected `y` coordinate of the latitude of origin, in meters. 0 by default.
+	 */
+	falseNorthing: number;
+	/**
+	 * The bounds (in meters) where the projection is used. Those of the whole world by
+	 * default.
+	 */
+	bounds: Bounds | undefined;
+}
+
+/**
+ * Creates an [Albers Equal Area](https://en.wikipedia.org/wiki/Albers_projection) conic
+ * projection, which preserves the areas of shapes. Suited to thematic (e.g. choropleth)
+ * maps of regions spreading from east to west in the middle latitudes.
+ *
+ * ```js
+ * // NAD83 / Conus Albers, for the contiguous United States (EPSG:5070)
+ * const conusAlbers = albersEqualArea({
+ *     ellipsoid: GRS80,
+ *     standardParallels: [29.5, 45.5],
+ *     centralMeridian: -96,
+ *     latitudeOfOrigin: 23,
+ * });
+ * ```
+ *
+ * The formulas are exact (see Snyder, *Map Projections: A Working Manual*, 1987, p. 101),
+ * and `unproject()` iterates to a precision of 1e-12 radians (less than a tenth of a
+ * millimeter).
+ */
+export function albersEqualArea(
+	params: Partial<AlbersEqualAreaParams> & Pick<AlbersEqualAreaParams, 'standardParallels'>,
+): Projection {
+	const {
+		standardParallels,
+		ellipsoid = WGS84,
+		centralMeridian = 0,
+		latitudeOfOrigin = 0,
+		falseEasting = 0,
+		falseNorthing = 0,
+	} = params;
+
+	const
+		a = ellipsoid.a,
+		e = Math.sqrt(ellipsoid.f * (2 - ellipsoid.f)),
+		e2 = e * e,
+		phi1 = standardParallels[0] * d,
+		phi2 = (standardParallels[1] ?? standardParallels[0]) * d,
+		m1 = m(phi1, e),
+		m2 = m(phi2, e),
+		q1 = q(phi1, e),
+		n = phi1 === phi2 ? Math.sin(phi1) : (m1 * m1 - m2 * m2) / (q(phi2, e) - q1);
+
+	if (!(Math.abs(n) > 1e-10)) {
+		throw new Error('The standard parallels of a conic projection must not be symmetric about the equator');
+	}
+
+	const
+		C = m1 * m1 + n * q1,
+		rho0 = a * Math.sqrt(C - n * q(latitudeOfOrigin * d, e)) / n,
+		// Value of `q` at the north pole
+		qp = q(Math.PI / 2, e);
+
+	function project(latlng: LatLng): Point {
+		const
+			// Rounding can take the square root slightly below zero at the pole
+			rho = a * Math.sqrt(Math.max(0, C - n * q(latlng.lat * d, e))) / n,
+			theta = n * lambda(latlng.lng, centralMeridian);
+
+		return new Point(
+			falseEasting + rho * Math.sin(theta),
+			falseNorthing + rho0 - rho * Math.cos(theta),
+		);
+	}
+
+	function unproject(point: Point): LatLng {
+		const
+			x = point.x - falseEasting,
+			y = rho0 - (point.y - falseNorthing),
+			sign = n < 0 ? -1 : 1,
+			rho = sign * Math.hypot(x, y),
+			theta = Math.atan2(sign * x, sign * y),
+			qv = (C - rho * rho * n * n / (a * a)) / n;
+
+		let phi: number;
+
+		if (Math.abs(qv) >= qp) {
+			phi = Math.sign(qv) * Math.PI / 2;
+		} else {
+			// Newton's method, starting from the authalic latitude
+			phi = Math.asin(qv / qp);
+
+			for (let i = 0, dPhi = 1; i < 15 && Math.abs(dPhi) > 1e-12; i++) {
+				const
+					sin = Math.sin(phi),
+					con = 1 - e2 * sin * sin;
+
+				dPhi = con * con / (2 * Math.cos(phi)) * (qv / (1 - e2) - sin / con + Math.log((1 - e * sin) / (1 + e * sin)) / (2 * e));
+				phi += dPhi;
+			}
+		}
+
+		return new LatLng(phi / d, Util.wrapNum(centralMeridian + theta / n / d, [-180, 180], true));
+	}
+
+	return {
+		bounds: params.bounds || conicBounds(project, n, centralMeridian, -90, 90),
+		project,
+		unproject,
+	};
+}
+
+// The `q` function of Snyder, proportional to the area between the equator and latitude φ
+function q(phi: number, e: number): number {
+	const
+		sin = Math.sin(phi),
+		con = e * sin;
+
+	return (1 - e * e) * (sin / (1 - con * con) - Math.log((1 - con) / (1 + con)) / (2 * e));
+}
@@ -0,0 +1,130 @@
+import { LatLng, WGS84, type Ellipsoid } from '..';
+import { Util } from '../../core';
+import { Point, type Bounds } from '../../geom';
+import { conicBounds, d, lambda, latitudeFromT, m, t } from './conic.js';
+import type { Projection } from './index.js';
+
+export interface LambertConformalConicParams {
+	/**
+	 * The latitudes where the cone touches (one) or cuts (two) the ellipsoid, in degrees.
+	 * The scale is `scaleFactor` along them.
+	 */
+	standardParallels: readonly [number] | readonly [number, number];
+	/**
+	 * The ellipsoid the geographical coordinates refer to. `WGS84` by default.
+	 */
+	ellipsoid: Ellipsoid;
+	/**
+	 * Longitude of the meridian which is vertical, in degrees. 0 by default.
+	 */
+	centralMeridian: number;
+	/**
+	 * Latitude where the projected `y` coordinate is `falseNorthing`, in degrees. The first
+	 * standard parallel by default.
+	 */
+	latitudeOfOrigin: number;
+	/**
+	 * Scale along the standard parallels, usually only set for projections with a single
+	 * one. 1 by default.
+	 */
+	scaleFactor: number;
+	/**
+	 * Projected `x` coordinate of the central meridian, in meters. 0 by default.
+	 */
+	falseEasting: number;
+	/**
+	 * Projected `y` coordinate of the latitude of origin, in meters. 0 by default.
+	 */
+	falseNorthing: number;
+	/**
+	 * The bounds (in meters) where the projection is used. By default, those of the
+	 * hemisphere of the standard parallels, from the equator to the pole.
+	 */
+	bounds: Bounds | undefined;
+}
+
+/**
+ * Creates a [Lambert Conformal Conic](https://en.wikipedia.org/wiki/Lambert_conformal_conic_projection)
+ * projection, with one or two standard parallels. Suited to regions spreading from east to
+ * west in the middle latitudes, it is used by many national and State Plane grids and by
+ * aeronautical charts.
+ *
+ * ```js
+ * // RGF93 / Lambert-93, the French national grid (EPSG:2154)
+ * const lambert93 = lambertConformalConic({
+ *     ellipsoid: GRS80,
+ *     standardParallels: [49, 44],
+ *     centralMeridian: 3,
+ *     latitudeOfOrigin: 46.5,
+ *     falseEasting: 700000,
+ *     falseNorthing: 6600000,
+ * });
+ * ```
+ *
+ * The formulas are exact (see Snyder, *Map Projections: A Working Manual*, 1987, p. 107),
+ * and `unproject()` iterates to a precision of 1e-12 radians (less than a tenth of a
+ * millimeter). Note that the pole opposite to the standard parallels is at infinity.
+ */
+export function lambertConformalConic(
+	params: Partial<LambertConformalConicParams> & Pick<LambertConformalConicParams, 'standardParallels'>,
+): Projection {
+	const {
+		standardParallels,
+		ellipsoid = WGS84,
+		centralMeridian = 0,
+		latitudeOfOrigin = standardParallels[0],
+		scaleFactor = 1,
+		falseEasting = 0,
+		falseNorthing = 0,
+	} = params;
+
+	const
+		e = Math.sqrt(ellipsoid.f * (2 - ellipsoid.f)),
+		phi1 = standardParallels[0] * d,
+		phi2 = (standardParallels[1] ?? standardParallels[0]) * d,
+		m1 = m(phi1, e),
+		t1 = t(phi1, e),
+		n = phi1 === phi2
+			? Math.sin(phi1)
+			: (Math.log(m1) - Math.log(m(phi2, e))) / (Math.log(t1) - Math.log(t(phi2, e)));
+
+	if (!(Math.abs(n) > 1e-10)) {
+		throw new Error('The standard parallels of a conic projection must not be symmetric about the equator');
+	}
+
+	const
+		// Radius of the arcs is `aF * t^n`
+		aF = scaleFactor * ellipsoid.a * m1 / (n * Math.pow(t1, n)),
+		rho0 = aF * Math.pow(t(latitudeOfOrigin * d, e), n);
+
+	function project(latlng: LatLng): Point {
+		const
+			rho = aF * Math.pow(t(latlng.lat * d, e), n),
+			theta = n * lambda(latlng.lng, centralMeridian);
+
+		return new Point(
+			falseEasting + rho * Math.sin(theta),
+			falseNorthing + rho0 - rho * Math.cos(theta),
+		);
+	}
+
+	function unproject(point: Point): LatLng {
+		const
+			x = point.x - falseEasting,
+			y = rho0 - (point.y - falseNorthing),
+			sign = n < 0 ? -1 : 1,
+			rho = sign * Math.hypot(x, y),
+			theta = Math.atan2(sign * x, sign * y),
+			phi = latitudeFromT(Math.pow(rho / aF, 1 / n), e);
+
+		return new LatLng(phi / d, Util.wrapNum(centralMeridian + theta / n / d, [-180, 180], true));
+	}
+
+	return {
+		bounds: params.bounds || (n > 0
+			? conicBounds(project, n, centralMeridian, 0, 90)
+			: conicBounds(project, n, centralMeridian, -90, 0)),
+		project,
+		unproject,
+	};
+}
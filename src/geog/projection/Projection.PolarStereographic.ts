@@ -0,0 +1,124 @@
+import { LatLng, WGS84, type Ellipsoid } from '..';
+import { Util } from '../../core';
+import { Bounds, Point } from '../../geom';
+import { d, latitudeFromT, lambda, m, t } from './conic.js';
+import type { Projection } from './index.js';
+
+export interface PolarStereographicParams {
+	/**
+	 * The pole at the center of the projection. That of the hemisphere of the
+	 * `latitudeOfTrueScale` if it is given, 'north' otherwise.
+	 */
+	pole: 'north' | 'south';
+	/**
+	 * The latitude where the scale is true, in degrees (e.g. 70 for the NSIDC sea ice maps,
+	 * -71 for Antarctica). If undefined, the scale is `scaleFactor` at the pole. Undefined
+	 * by default.
+	 */
+	latitudeOfTrueScale: number | undefined;
+	/**
+	 * Scale at the pole, when there is no `latitudeOfTrueScale` (e.g. 0.994 for the
+	 * Universal Polar Stereographic system). 1 by default.
+	 */
+	scaleFactor: number;
+	/**
+	 * The ellipsoid the geographical coordinates refer to. `WGS84` by default.
+	 */
+	ellipsoid: Ellipsoid;
+	/**
+	 * Longitude of the meridian which goes straight down from the north pole (or up from
+	 * the south pole), in degrees. 0 by default.
+	 */
+	centralMeridian: number;
+	/**
+	 * Projected `x` coordinate of the pole, in meters. 0 by default.
+	 */
+	falseEasting: number;
+	/**
+	 * Projected `y` coordinate of the pole, in meters. 0 by default.
+	 */
+	falseNorthing: number;
+	/**
+	 * The bounds (in meters) where the projection is used. By default, those of the
+	 * hemisphere of the pole, i.e. the square around the equator.
+	 */
+	bounds: Bounds | undefined;
+}
+
+/**
+ * Creates a [polar stereographic](https://en.wikipedia.org/wiki/Universal_polar_stereographic_coordinate_system)
+ * projection, the conformal azimuthal projection centered on a pole used for maps of the
+ * Arctic and the Antarctic (see the `EPSG3413` and `EPSG3031` CRSs). The parallels are
+ * circles around the pole, and the meridians straight lines from it.
+ *
+ * ```js
+ * // Universal Polar Stereographic, north zone (EPSG:32661)
+ * const upsNorth = polarStereographic({
+ *     scaleFactor: 0.994,
+ *     falseEasting: 2000000,
+ *     falseNorthing: 2000000,
+ * });
+ * ```
+ *
+ * The formulas are exact (see Snyder, *Map Projections: A Working Manual*, 1987, p. 160),
+ * and `unproject()` iterates to a precision of 1e-12 radians (less than a tenth of a
+ * millimeter).
+ */
+export function polarStereographic(params?: Partial<PolarStereographicParams>): Projection {
+	const {
+		latitudeOfTrueScale,
+		pole = latitudeOfTrueScale !== undefined && latitudeOfTrueScale < 0 ? 'south' : 'north',
+		scaleFactor = 1,
+		ellipsoid = WGS84,
+		centralMeridian = 0,
+		falseEasting = 0,
+		falseNorthing = 0,
+	} = params || {};
+
+	// The south polar projection is the north one mirrored through the center
+	const sign = pole === 'south' ? -1 : 1;
+
+	if (latitudeOfTrueScale !== undefined && !(sign * latitudeOfTrueScale > 0)) {
+		throw new Error(`The latitude of true scale must be in the hemisphere of the ${pole} pole`);
+	}
+
+	const
+		e = Math.sqrt(ellipsoid.f * (2 - ellipsoid.f)),
+		phiC = latitudeOfTrueScale === undefined ? Math.PI / 2 : sign * latitudeOfTrueScale * d,
+		// Radius of the parallels is `k * t`
+		k = phiC === Math.PI / 2
+			? 2 * ellipsoid.a * scaleFactor / Math.sqrt(Math.pow(1 + e, 1 + e) * Math.pow(1 - e, 1 - e))
+			: ellipsoid.a * m(phiC, e) / t(phiC, e);
+
+	function project(latlng: LatLng): Point {
+		const
+			rho = k * t(sign * latlng.lat * d, e),
+			theta = sign * lambda(latlng.lng, centralMeridian);
+
+		return new Point(
+			falseEasting + sign * rho * Math.sin(theta),
+			falseNorthing - sign * rho * Math.cos(theta),
+		);
+	}
+
+	function unproject(point: Point): LatLng {
+		const
+			x = sign * (point.x - falseEasting),
+			y = sign * (point.y - falseNorthing),
+			phi = latitudeFromT(Math.hypot(x, y) / k, e),
+			theta = Math.atan2(x, -y);
+
+		return new LatLng(sign * phi / d, Util.wrapNum(centralMeridian + sign * theta / d, [-180, 180], true));
+	}
+
+	const rhoEquator = k * t(0, e);
+
+	return {
+		bounds: params?.bounds || new Bounds(
+			new Point(falseEasting - rhoEquator, falseNorthing - rhoEquator),
+			new Point(falseEasting + rhoEquator, falseNorthing + rhoEquator),
+		),
+		project,
+		unproject,
+	};
+}
@@ -0,0 +1,253 @@
+import { LatLng, WGS84, type Ellipsoid } from '..';
+import { Util } from '../../core';
+import { Bounds, Point } from '../../geom';
+import type { Projection } from './index.js';
+
+export interface TransverseMercatorParams {
+	/**
+	 * The ellipsoid the geographical coordinates refer to. `WGS84` by default.
+	 */
+	ellipsoid: Ellipsoid;
+	/**
+	 * Longitude of the central meridian, where the scale is `scaleFactor`, in degrees.
+	 * 0 by default.
+	 */
+	centralMeridian: number;
+	/**
+	 * Latitude where the projected `y` coordinate is `falseNorthing`, in degrees. 0 by default.
+	 */
+	latitudeOfOrigin: number;
+	/**
+	 * Scale along the central meridian, e.g. 0.9996 for UTM. 1 by default.
+	 */
+	scaleFactor: number;
+	/**
+	 * Projected `x` coordinate of the central meridian, in meters. 0 by default.
+	 */
+	falseEasting: number;
+	/**
+	 * Projected `y` coordinate of the latitude of origin, in meters. 0 by default.
+	 */
+	falseNorthing: number;
+	/**
+	 * The bounds (in meters) where the projection is used. By default, those of the strip
+	 * within 3 degrees of the central meridian between latitudes 80°S and 84°N, like a UTM
+	 * zone.
+	 */
+	bounds: Bounds | undefined;
+}
+
+/**
+ * Creates a [Transverse Mercator](https://en.wikipedia.org/wiki/Transverse_Mercator_projection)
+ * projection, the conformal projection of most national and regional grids (UTM, British
+ * National Grid, Gauss-Krüger, most State Plane zones...).
+ *
+ * The coordinates are computed with the series of Krüger to the sixth order in the third
+ * flattening (see [Karney, 2011](https://arxiv.org/abs/1002.1417)), which is accurate to
+ * a few nanometers within 3000 km of the central meridian, and still to a millimeter
+ * within 4000 km.
+ *
+ * ```js
+ * // British National Grid (EPSG:27700)
+ * const bng = transverseMercator({
+ *     ellipsoid: Airy1830,
+ *     centralMeridian: -2,
+ *     latitudeOfOrigin: 49,
+ *     scaleFactor: 0.9996012717,
+ *     falseEasting: 400000,
+ *     falseNorthing: -100000,
+ * });
+ * ```
+ *
+ * Note that no datum shift is applied: lat/lngs are on the datum of the ellipsoid.
+ */
+export function transverseMercator(params?: Partial<TransverseMercatorParams>): Projection {
+	const {
+		ellipsoid = WGS84,
+		centralMeridian = 0,
+		latitudeOfOrigin = 0,
+		scaleFactor = 1,
+		falseEasting = 0,
+		falseNorthing = 0,
+	} = params || {};
+
+	const
+		d = Math.PI / 180,
+		f = ellipsoid.f,
+		e = Math.sqrt(f * (2 - f)),
+		n = f / (2 - f),
+		n2 = n * n,
+		// Radius of the rectifying sphere, times the scale factor
+		kA = scaleFactor * ellipsoid.a / (1 + n) * (1 + n2 / 4 + n2 * n2 / 64 + n2 * n2 * n2 / 256),
+		alpha = krugerCoefficients(n, ALPHA),
+		beta = krugerCoefficients(n, BETA),
+		// Distance from the equator to the latitude of origin along the central meridian
+		chi0 = Math.atan(conformalTan(Math.tan(latitudeOfOrigin * d), e)),
+		xi0 = chi0 + alpha.reduce((sum, a, j) => sum + a * Math.sin(2 * (j + 1) * chi0), 0);
+
+	function project(latlng: LatLng): Point {
+		const
+			lambda = wrapRadians((latlng.lng - centralMeridian) * d),
+			tauP = conformalTan(Math.tan(latlng.lat * d), e),
+			cosLambda = Math.cos(lambda),
+			xiP = Math.atan2(tauP, cosLambda),
+			etaP = Math.asinh(Math.sin(lambda) / Math.hypot(tauP, cosLambda));
+
+		let
+			xi = xiP,
+			eta = etaP;
+
+		for (let j = 1; j <= 6; j++) {
+			xi += alpha[j - 1] * Math.sin(2 * j * xiP) * Math.cosh(2 * j * etaP);
+			eta += alpha[j - 1] * Math.cos(2 * j * xiP) * Math.sinh(2 * j * etaP);
+		}
+
+		return new Point(
+			falseEasting + kA * eta,
+			falseNorthing + kA * (xi - xi0),
+		);
+	}
+
+	function unproject(point: Point): LatLng {
+		const
+			xi = (point.y - falseNorthing) / kA + xi0,
+			eta = (point.x - falseEasting) / kA;
+
+		let
+			xiP = xi,
+			etaP = eta;
+
+		for (let j = 1; j <= 6; j++) {
+			xiP -= beta[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+			etaP -= beta[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+		}
+
+		const
+			sinhEtaP = Math.sinh(etaP),
+			cosXiP = Math.cos(xiP),
+			tauP = Math.sin(xiP) / Math.hypot(sinhEtaP, cosXiP),
+			lambda = Math.atan2(sinhEtaP, cosXiP);
+
+		return new LatLng(
+			Math.atan(geodeticTan(tauP, e)) / d,
+			Util.wrapNum(centralMeridian + lambda / d, [-180, 180], true),
+		);
+	}
+
+	return {
+		// The strip is widest on the equator, and ends on the central meridian
+		bounds: params?.bounds || new Bounds(
+			project(new LatLng(0, centralMeridian - 3)),
+			project(new LatLng(0, centralMeridian + 3)),
+			project(new LatLng(-80, centralMeridian)),
+			project(new LatLng(84, centralMeridian)),
+		),
+		project,
+		unproject,
+	};
+}
+
+/**
+ * Creates the Transverse Mercator projection of a zone (from 1 to 60) of the
+ * [Universal Transverse Mercator](https://en.wikipedia.org/wiki/Universal_Transverse_Mercator_coordinate_system)
+ * system, in the northern hemisphere or in the `south`ern one (where the false northing is
+ * 10000 km). The `bounds` cover the zone between the equator and 84°N, or 80°S.
+ */
+export function utmProjection(zone: number, south = false, ellipsoid = WGS84): Projection {
+	if (!(zone >= 1 && zone <= 60 && Math.round(zone) === zone)) {
+		throw new Error(`Invalid UTM zone ${zone}, expected an integer from 1 to 60`);
+	}
+
+	const
+		params = {
+			ellipsoid,
+			centralMeridian: zone * 6 - 183,
+			scaleFactor: 0.9996,
+			falseEasting: 500000,
+			falseNorthing: south ? 10000000 : 0,
+		},
+		{ min, max } = transverseMercator(params).bounds;
+
+	return transverseMercator({
+		...params,
+		bounds: south
+			? new Bounds(min, new Point(max.x, params.falseNorthing))
+			: new Bounds(new Point(min.x, 0), max),
+	});
+}
+
+/**
+ * Returns the number of the UTM zone containing the given location, taking the exceptions
+ * around southwestern Norway and Svalbard into account.
+ */
+export function utmZone(latlng: LatLng): number {
+	const
+		{ lat } = latlng,
+		lng = latlng.lng - Math.floor((latlng.lng + 180) / 360) * 360;
+
+	if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) {
+		return 32;
+	}
+
+	if (lat >= 72 && lat <= 84 && lng >= 0 && lng < 42) {
+		return lng < 9 ? 31 : lng < 21 ? 33 : lng < 33 ? 35 : 37;
+	}
+
+	return Math.min(Math.floor((lng + 180) / 6) + 1, 60);
+}
+
+// Coefficients of the series of Krüger, as polynomials in n from n^1 to n^6 (Karney, 2011)
+const ALPHA = [
+	[1 / 2, -2 / 3, 5 / 16, 41 / 180, -127 / 288, 7891 / 37800],
+	[0, 13 / 48, -3 / 5, 557 / 1440, 281 / 630, -1983433 / 1935360],
+	[0, 0, 61 / 240, -103 / 140, 15061 / 26880, 167603 / 181440],
+	[0, 0, 0, 49561 / 161280, -179 / 168, 6601661 / 7257600],
+	[0, 0, 0, 0, 34729 / 80640, -3418889 / 1995840],
+	[0, 0, 0, 0, 0, 212378941 / 319334400],
+];
+
+const BETA = [
+	[1 / 2, -2 / 3, 37 / 96, -1 / 360, -81 / 512, 96199 / 604800],
+	[0, 1 / 48, 1 / 15, -437 / 1440, 46 / 105, -1118711 / 3870720],
+	[0, 0, 17 / 480, -37 / 840, -209 / 4480, 5569 / 90720],
+	[0, 0, 0, 4397 / 161280, -11 / 504, -830251 / 7257600],
+	[0, 0, 0, 0, 4583 / 161280, -108847 / 3991680],
+	[0, 0, 0, 0, 0, 20648693 / 638668800],
+];
+
+function krugerCoefficients(n: number, polynomials: number[][]): number[] {
+	return polynomials.map(poly => poly.reduceRight((sum, c) => (sum + c) * n, 0));
+}
+
+// Tangent of the conformal latitude, from the tangent of the geodetic latitude
+function conformalTan(tau: number, e: number): number {
+	const
+		tau1 = Math.hypot(1, tau),
+		sigma = Math.sinh(e * Math.atanh(e * tau / tau1));
+
+	return Math.hypot(1, sigma) * tau - sigma * tau1;
+}
+
+// Inverse of `conformalTan()`, by Newton's method (converges in 2 or 3 iterations)
+function geodeticTan(tauP: number, e: number): number {
+	const e2m = 1 - e * e;
+
+	let tau = tauP / e2m;
+
+	for (let i = 0; i < 5; i++) {
+		const
+			tau1 = Math.hypot(1, tau),
+			tauPi = conformalTan(tau, e),
+			dTau = (tauP - tauPi) / Math.hypot(1, tauPi) * (1 + e2m * tau * tau) / (e2m * tau1);
+
+		tau += dTau;
+
+		if (!(Math.abs(dTau) >= 1e-14 * Math.max(1, Math.abs(tau)))) { break; }
+	}
+
+	return tau;
+}
+
+function wrapRadians(angle: number): number {
+	return angle - Math.round(angle / (2 * Math.PI)) * 2 * Math.PI;
+}
@@ -0,0 +1,69 @@
+import { LatLng } from '..';
+import { Bounds, type Point } from '../../geom';
+
+/*
+ * Helpers shared by the conic projections. These project the parallels onto concentric
+ * arcs, with the meridians as radii at angles of `n` times their longitude difference
+ * to the central meridian (the "cone constant" `n` being between -1 and 1). The polar
+ * stereographic projection is the limiting case of the conformal one where `n` is 1.
+ */
+
+export const d = Math.PI / 180;
+
+// Difference of a longitude to the central meridian, in radians from -π to π. Longitudes
+// exactly on the antimeridian keep their side, so that the edges of the fan stay apart.
+export function lambda(lng: number, centralMeridian: number): number {
+	const l = (lng - centralMeridian) * d;
+
+	return Math.abs(l) > Math.PI ? l - Math.round(l / (2 * Math.PI)) * 2 * Math.PI : l;
+}
+
+// Radius of the parallel of latitude φ on the ellipsoid, relative to the semi-major axis
+export function m(phi: number, e: number): number {
+	const sin = Math.sin(phi);
+
+	return Math.cos(phi) / Math.sqrt(1 - e * e * sin * sin);
+}
+
+// The `t` function of Snyder, tan(π/4 - χ/2) for the conformal latitude χ
+export function t(phi: number, e: number): number {
+	const con = e * Math.sin(phi);
+
+	return Math.tan(Math.PI / 4 - phi / 2) / Math.pow((1 - con) / (1 + con), e / 2);
+}
+
+// Inverse of `t()`, by fixed-point iteration
+export function latitudeFromT(tp: number, e: number): number {
+	let phi = Math.PI / 2 - 2 * Math.atan(tp);
+
+	for (let i = 0, dPhi = 1; i < 15 && Math.abs(dPhi) > 1e-12; i++) {
+		const con = e * Math.sin(phi);
+
+		dPhi = Math.PI / 2 - 2 * Math.atan(tp * Math.pow((1 - con) / (1 + con), e / 2)) - phi;
+		phi += dPhi;
+	}
+
+	return phi;
+}
+
+// Bounds of the sector of the projected fan between two latitudes, over all longitudes
+export function conicBounds(
+	project: (latlng: LatLng) => Point,
+	n: number,
+	centralMeridian: number,
+	minLat: number,
+	maxLat: number,
+): Bounds {
+	const bounds = new Bounds();
+
+	// Besides the corners, the arcs reach furthest in the directions of the axes
+	for (const theta of [-Math.PI, -Math.PI / 2, 0, Math.PI / 2, Math.PI]) {
+		const dLng = Math.max(-180, Math.min(180, theta / Math.abs(n) / d));
+
+		bounds
+			.extend(project(new LatLng(minLat, centralMeridian + dLng)))
+			.extend(project(new LatLng(maxLat, centralMeridian + dLng)));
+	}
+
+	return bounds;
+}
@@ -1,9 +1,13 @@
 import type { LatLng } from '..';
 import type { Bounds, Point } from '../../geom';
 
+export * from './Projection.AlbersEqualArea.js';
+export * from './Projection.LambertConformalConic.js';
 export { LonLat } from './Projection.LonLat.js';
 export { Mercator } from './Projection.Mercator.js';
+export * from './Projection.PolarStereographic.js';
 export { SphericalMercator } from './Projection.SphericalMercator.js';
+export * from './Projection.TransverseMercator.js';
 
 /**
  * An object with methods for projecting geographical coordinates of the world onto
@@ -1,4 +1,5 @@
-import { LatLng, LatLngBounds } from '..';
+import { LatLng, LatLngBounds, WGS84, type Ellipsoid } from '..';
+import { Util } from '../../core';
 import { Point } from '../../geom';
 import { Earth, type CRS } from '../crs';
 
@@ -182,3 +183,379 @@ export function polygonCenter(latlngs: readonly LatLng[], crs: CRS): LatLng {
 		latlngCenter.lng + centroidLatLng.lng,
 	);
 }
+
+/**
+ * Returns the area (in square meters) of the polygon formed by the passed LatLngs,
+ * treating the Earth as a sphere. The ring does not need to be closed, and the
+ * winding order does not matter.
+ */
+export function sphericalArea(latlngs: readonly LatLng[]): number {
+	const
+		len = latlngs.length,
+		d2r = Math.PI / 180;
+
+	if (len < 3) { return 0; }
+
+	let area = 0;
+
+	for (let i = 0; i < len; i++) {
+		const
+			p1 = latlngs[i],
+			p2 = latlngs[(i + 1) % len];
+
+		area += (p2.lng - p1.lng) * d2r * (2 + Math.sin(p1.lat * d2r) + Math.sin(p2.lat * d2r));
+	}
+
+	return Math.abs(area * Earth.R * Earth.R / 2);
+}
+
+/**
+ * The solution of the inverse geodesic problem between two points, see `geodesicInverse()`.
+ */
+export interface GeodesicInverse {
+	/** Length of the geodesic, in meters. */
+	distance: number;
+	/** Bearing of the geodesic at the first point, in degrees clockwise from north [0, 360). */
+	initialBearing: number;
+	/** Bearing of the geodesic at the second point, in degrees clockwise from north [0, 360). */
+	finalBearing: number;
+}
+
+/**
+ * The solution of the direct geodesic problem, see `geodesicDirect()`.
+ */
+export interface GeodesicDirect {
+	/** The point at the end of the geodesic. */
+	latlng: LatLng;
+	/** Bearing of the geodesic at that point, in degrees clockwise from north [0, 360). */
+	finalBearing: number;
+}
+
+/**
+ * Solves the inverse geodesic problem on an ellipsoid (WGS84 by default): finds the length
+ * of the shortest path between two points on its surface, and its bearings at both ends.
+ *
+ * Uses [Vincenty's formulas](https://en.wikipedia.org/wiki/Vincenty%27s_formulae), whose
+ * distances agree with those of [GeographicLib](https://geographiclib.sourceforge.io/)
+ * to 0.1 mm, and bearings to 1e-8 degrees between points at least a meter apart (those
+ * of shorter lines depend on the last digits of the coordinates). Vincenty's iteration on
+ * the longitude fails to converge for some nearly antipodal points, between which the
+ * initial bearing is solved for instead, like [Karney](https://arxiv.org/abs/1109.4448)
+ * does, to the same accuracy in distance (bearings there change a lot with the positions
+ * anyway). Between exactly antipodal points, several geodesics are the shortest, and only
+ * one of them is returned. Bearings are undefined between coincident points (and 0 here).
+ */
+export function geodesicInverse(latlng1: LatLng, latlng2: LatLng, ellipsoid: Ellipsoid = WGS84): GeodesicInverse {
+	const
+		{ a, f } = ellipsoid,
+		b = a * (1 - f),
+		dLng = Util.wrapNum(latlng2.lng - latlng1.lng, [-180, 180], true) * d2r,
+		// Solved for a positive longitude difference, then mirrored
+		sign = dLng < 0 ? -1 : 1,
+		L = Math.abs(dLng),
+		[sinU1, cosU1] = reducedLatitude(latlng1.lat, f),
+		[sinU2, cosU2] = reducedLatitude(latlng2.lat, f);
+
+	let
+		lambda = L,
+		sinLambda = 0,
+		cosLambda = 0,
+		sinSigma = 0,
+		cosSigma = 0,
+		sigma = 0,
+		cos2Alpha = 0,
+		cos2SigmaM = 0,
+		converged = false;
+
+	for (let i = 0; i < 200 && !converged && !(lambda > Math.PI); i++) {
+		sinLambda = Math.sin(lambda);
+		cosLambda = Math.cos(lambda);
+		sinSigma = Math.hypot(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda);
+		cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+		sigma = Math.atan2(sinSigma, cosSigma);
+
+		const sinAlpha = sinSigma === 0 ? 0 : cosU1 * cosU2 * sinLambda / sinSigma;
+
+		cos2Alpha = 1 - sinAlpha * sinAlpha;
+		// Equatorial lines have no vertex, the term vanishes
+		cos2SigmaM = cos2Alpha === 0 ? 0 : cosSigma - 2 * sinU1 * sinU2 / cos2Alpha;
+
+		const prev = lambda;
+
+		lambda = L + longitudeCorrection(f, sinAlpha, sigma, sinSigma, cosSigma, cos2SigmaM);
+		// Relative, as bearings between close points depend on the few digits of a small λ
+		converged = Math.abs(lambda - prev) <= 1e-12 * lambda;
+	}
+
+	if (!converged) {
+		return antipodalInverse(latlng1.lat, latlng2.lat, dLng, ellipsoid);
+	}
+
+	if (sinSigma === 0 && cosSigma > 0) {
+		return { distance: 0, initialBearing: 0, finalBearing: 0 };
+	}
+
+	const
+		u2 = cos2Alpha * (a * a - b * b) / (b * b),
+		deltaSigma = sigmaCorrection(u2, sinSigma, cosSigma, cos2SigmaM),
+		alpha1 = Math.atan2(cosU2 * sinLambda, cosU1 * sinU2 - sinU1 * cosU2 * cosLambda),
+		alpha2 = Math.atan2(cosU1 * sinLambda, -sinU1 * cosU2 + cosU1 * sinU2 * cosLambda);
+
+	return {
+		distance: b * vincentyA(u2) * (sigma - deltaSigma),
+		initialBearing: normalizeBearing(sign * alpha1 / d2r),
+		finalBearing: normalizeBearing(sign * alpha2 / d2r),
+	};
+}
+
+/**
+ * Returns the length (in meters) of the geodesic between two points, i.e. the shortest
+ * distance between them on the surface of an ellipsoid (WGS84 by default), unlike the
+ * spherical approximation of `Earth.distance()`. See `geodesicInverse()`.
+ */
+export function geodesicDistance(latlng1: LatLng, latlng2: LatLng, ellipsoid: Ellipsoid = WGS84): number {
+	return geodesicInverse(latlng1, latlng2, ellipsoid).distance;
+}
+
+/**
+ * Solves the direct geodesic problem on an ellipsoid (WGS84 by default): finds where the
+ * geodesic starting at a point with the given bearing (in degrees clockwise from north)
+ * ends after `distance` meters, e.g. to find the destination of a plane flying a great
+ * circle route.
+ *
+ * Uses Vincenty's formulas, whose positions agree with those of GeographicLib to 0.1 mm
+ * for distances up to 20000 km. The longitude of the end point is within 180 degrees of
+ * the start longitude, rather than wrapped to [-180, 180], so that lines drawn between
+ * them don't cross the whole map at the antimeridian.
+ */
+export function geodesicDirect(latlng: LatLng, bearing: number, distance: number, ellipsoid: Ellipsoid = WGS84): GeodesicDirect {
+	const
+		{ a, f } = ellipsoid,
+		b = a * (1 - f),
+		alpha1 = bearing * d2r,
+		sinAlpha1 = Math.sin(alpha1),
+		cosAlpha1 = Math.cos(alpha1),
+		[sinU1, cosU1] = reducedLatitude(latlng.lat, f),
+		// Angular distance on the auxiliary sphere from the equator crossing to the start
+		sigma1 = Math.atan2(sinU1, cosU1 * cosAlpha1),
+		sinAlpha = cosU1 * sinAlpha1,
+		cos2Alpha = 1 - sinAlpha * sinAlpha,
+		u2 = cos2Alpha * (a * a - b * b) / (b * b),
+		A = vincentyA(u2);
+
+	let
+		sigma = distance / (b * A),
+		sinSigma = 0,
+		cosSigma = 0,
+		cos2SigmaM = 0;
+
+	for (let i = 0, prev = Infinity; i < 100 && Math.abs(sigma - prev) > 1e-12; i++) {
+		sinSigma = Math.sin(sigma);
+		cosSigma = Math.cos(sigma);
+		cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+		prev = sigma;
+		sigma = distance / (b * A) + sigmaCorrection(u2, sinSigma, cosSigma, cos2SigmaM);
+	}
+
+	sinSigma = Math.sin(sigma);
+	cosSigma = Math.cos(sigma);
+	cos2SigmaM = Math.cos(2 * sigma1 + sigma);
+
+	const
+		tmp = sinU1 * sinSigma - cosU1 * cosSigma * cosAlpha1,
+		phi2 = Math.atan2(sinU1 * cosSigma + cosU1 * sinSigma * cosAlpha1, (1 - f) * Math.hypot(sinAlpha, tmp)),
+		lambda = Math.atan2(sinSigma * sinAlpha1, cosU1 * cosSigma - sinU1 * sinSigma * cosAlpha1),
+		L = lambda - longitudeCorrection(f, sinAlpha, sigma, sinSigma, cosSigma, cos2SigmaM),
+		alpha2 = Math.atan2(sinAlpha, -tmp);
+
+	return {
+		latlng: new LatLng(phi2 / d2r, latlng.lng + wrapRadians(L) / d2r),
+		finalBearing: normalizeBearing(alpha2 / d2r),
+	};
+}
+
+/**
+ * Returns the point at `fraction` (from 0 to 1) of the way along the geodesic between two
+ * points on an ellipsoid (WGS84 by default). See `geodesicInverse()` and `geodesicDirect()`.
+ */
+export function geodesicInterpolate(latlng1: LatLng, latlng2: LatLng, fraction: number, ellipsoid: Ellipsoid = WGS84): LatLng {
+	const { distance, initialBearing } = geodesicInverse(latlng1, latlng2, ellipsoid);
+
+	return geodesicDirect(latlng1, initialBearing, distance * fraction, ellipsoid).latlng;
+}
+
+/**
+ * Returns `segments + 1` points evenly spaced along the geodesic between two points on an
+ * ellipsoid (WGS84 by default), e.g. to draw it as a `Polyline`. Longitudes continue beyond
+ * 180 (or -180) degrees rather than wrapping around, so that the line doesn't cross the
+ * whole map.
+ *
+ * ```js
+ * const route = new Polyline(GeogUtil.geodesicPath(auckland, santiago, 64));
+ * ```
+ */
+export function geodesicPath(latlng1: LatLng, latlng2: LatLng, segments: number, ellipsoid: Ellipsoid = WGS84): LatLng[] {
+	const
+		{ distance, initialBearing } = geodesicInverse(latlng1, latlng2, ellipsoid),
+		points = [latlng1.clone()];
+
+	for (let i = 1; i <= segments; i++) {
+		// The end is exact, but on the same side of the antimeridian as the rest of the line
+		const
+			latlng = i === segments
+				? latlng2.clone()
+				: geodesicDirect(latlng1, initialBearing, distance * i / segments, ellipsoid).latlng,
+			prevLng = points[i - 1].lng;
+
+		latlng.lng += Math.round((prevLng - latlng.lng) / 360) * 360;
+		points.push(latlng);
+	}
+
+	return points;
+}
+
+// The inverse problem between nearly antipodal points, solved for the initial bearing α1
+// rather than the longitude on the auxiliary sphere
+function antipodalInverse(lat1: number, lat2: number, dLng: number, ellipsoid: Ellipsoid): GeodesicInverse {
+	const
+		{ a, f } = ellipsoid,
+		b = a * (1 - f),
+		lngSign = dLng < 0 ? -1 : 1,
+		lambda12 = Math.abs(dLng),
+		// The first point is brought in the southern hemisphere, further from the equator
+		// than the second one, so that the geodesic reaches the second point northwards
+		swap = Math.abs(lat1) < Math.abs(lat2) ? -1 : 1,
+		latSign = (swap > 0 ? lat1 : lat2) > 0 ? -1 : 1,
+		[sinBeta1, cosBeta1] = reducedLatitude(latSign * (swap > 0 ? lat1 : lat2), f),
+		[sinBeta2, cosBeta2] = reducedLatitude(latSign * (swap > 0 ? lat2 : lat1), f);
+
+	if (sinBeta1 === 0 && lambda12 <= (1 - f) * Math.PI) {
+		// Along the equator, which is a geodesic up to there
+		const bearing = normalizeBearing(lngSign * 90);
+
+		return { distance: a * lambda12, initialBearing: bearing, finalBearing: bearing };
+	}
+
+	// Follows the geodesic leaving the first point with bearing α1 up to the latitude of
+	// the second point, on the auxiliary sphere (where σ is the arc length from the
+	// equator, and ω the longitude), and finds by how much it misses it in longitude
+	function solve(alpha1: number) {
+		const
+			sinAlpha1 = Math.sin(alpha1),
+			cosAlpha1 = Math.cos(alpha1),
+			// Clairaut's constant: bearing at the equator
+			sinAlpha0 = sinAlpha1 * cosBeta1,
+			cos2Alpha0 = cosAlpha1 * cosAlpha1 + sinAlpha1 * sinBeta1 * sinAlpha1 * sinBeta1,
+			sinAlpha2 = cosBeta2 === cosBeta1 ? sinAlpha1 : sinAlpha0 / cosBeta2,
+			cosAlpha2 = cosBeta2 === cosBeta1 && sinBeta2 === -sinBeta1
+				? Math.abs(cosAlpha1)
+				: Math.sqrt(cosAlpha1 * cosBeta1 * cosAlpha1 * cosBeta1 + (cosBeta1 < -sinBeta1
+					? (cosBeta2 - cosBeta1) * (cosBeta1 + cosBeta2)
+					: (sinBeta1 - sinBeta2) * (sinBeta1 + sinBeta2))) / cosBeta2,
+			sigma1 = Math.atan2(sinBeta1, cosAlpha1 * cosBeta1),
+			sigma2 = Math.atan2(sinBeta2, cosAlpha2 * cosBeta2),
+			sigma12 = arcBetween(sigma1, sigma2),
+			omega12 = arcBetween(
+				Math.atan2(sinAlpha0 * sinBeta1, cosAlpha1 * cosBeta1),
+				Math.atan2(sinAlpha0 * sinBeta2, cosAlpha2 * cosBeta2),
+			),
+			sinSigma = Math.sin(sigma12),
+			cosSigma = Math.cos(sigma12),
+			cos2SigmaM = Math.cos(sigma1 + sigma2),
+			miss = omega12 - longitudeCorrection(f, sinAlpha0, sigma12, sinSigma, cosSigma, cos2SigmaM) - lambda12;
+
+		return { miss, sinAlpha1, cosAlpha1, sinAlpha2, cosAlpha2, cos2Alpha0, sigma12, sinSigma, cosSigma, cos2SigmaM };
+	}
+
+	// The miss goes from negative at α1 = 0 (north along the meridian) to positive at
+	// α1 = π (south over the pole), crossing zero once
+	let
+		lo = 0,
+		hi = Math.PI,
+		terms = solve(hi);
+
+	if (terms.miss > 0) {
+		for (let i = 0; i < 100; i++) {
+			const alpha1 = (lo + hi) / 2;
+
+			if (alpha1 === lo || alpha1 === hi) { break; }
+
+			terms = solve(alpha1);
+
+			if (terms.miss < 0) {
+				lo = alpha1;
+			} else {
+				hi = alpha1;
+			}
+		}
+	}
+
+	const
+		{ cos2Alpha0, sigma12, sinSigma, cosSigma, cos2SigmaM } = terms,
+		u2 = cos2Alpha0 * (a * a - b * b) / (b * b),
+		// Back to the given points: mirroring them through the equator or the meridian
+		// mirrors the bearings, and swapping them reverses the geodesic
+		alpha1 = Math.atan2(lngSign * terms.sinAlpha1, swap * latSign * terms.cosAlpha1) / d2r,
+		alpha2 = Math.atan2(lngSign * terms.sinAlpha2, swap * latSign * terms.cosAlpha2) / d2r;
+
+	return {
+		distance: b * vincentyA(u2) * (sigma12 - sigmaCorrection(u2, sinSigma, cosSigma, cos2SigmaM)),
+		initialBearing: normalizeBearing(swap > 0 ? alpha1 : alpha2),
+		finalBearing: normalizeBearing(swap > 0 ? alpha2 : alpha1),
+	};
+}
+
+const d2r = Math.PI / 180;
+
+// Vincenty's `A` coefficient, scaling arc lengths on the auxiliary sphere to distances
+function vincentyA(u2: number): number {
+	return 1 + u2 / 16384 * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+}
+
+// Vincenty's `Δσ`, the correction of arc lengths on the auxiliary sphere
+function sigmaCorrection(u2: number, sinSigma: number, cosSigma: number, cos2SigmaM: number): number {
+	const B = u2 / 1024 * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+
+	return B * sinSigma * (cos2SigmaM + B / 4 * (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+		B / 6 * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+}
+
+// Difference between the longitude on the auxiliary sphere and on the ellipsoid
+function longitudeCorrection(
+	f: number,
+	sinAlpha: number,
+	sigma: number,
+	sinSigma: number,
+	cosSigma: number,
+	cos2SigmaM: number,
+): number {
+	const
+		cos2Alpha = 1 - sinAlpha * sinAlpha,
+		C = f / 16 * cos2Alpha * (4 + f * (4 - 3 * cos2Alpha));
+
+	return (1 - C) * f * sinAlpha * (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+}
+
+// Sine and cosine of the latitude on the auxiliary sphere
+function reducedLatitude(lat: number, f: number): [number, number] {
+	const
+		tanU = (1 - f) * Math.tan(lat * d2r),
+		cosU = 1 / Math.hypot(1, tanU);
+
+	return [tanU * cosU, cosU];
+}
+
+function wrapRadians(angle: number): number {
+	return angle - Math.round(angle / (2 * Math.PI)) * 2 * Math.PI;
+}
+
+// The angle from `from` to `to`, taken in [0, π]
+function arcBetween(from: number, to: number): number {
+	return Math.atan2(Math.max(0, Math.sin(to - from)), Math.cos(to - from));
+}
+
+function normalizeBearing(bearing: number): number {
+	const normalized = bearing % 360;
+
+	return normalized < 0 ? normalized + 360 : normalized;
+}
@@ -1,3 +1,4 @@
+export * from './control';
 export * from './core';
 export * from './dom';
 export * from './extras';
@@ -6,10 +7,13 @@ export * from './geom';
 export * from './map';
 export * from './map-anim';
 export * from './map-elem';
+export * from './map-elem/cluster';
+export * from './map-elem/geojson';
 export * from './map-elem/marker';
 export * from './map-elem/tile';
 export * from './map-elem/vector';
 export * from './map-interaction';
+export * from './map-interaction/draw';
 
 import './critical-styles.css';
 
@@ -25,7 +25,7 @@ export interface DivOverlayOptions extends LayerOptions {
 }
 
 /**
- * Base model for L.Tooltip. Inherit from it for custom overlays like plugins.
+ * Base model for `Popup` and `Tooltip`. Inherit from it for custom overlays like plugins.
  * 
  * @event contentupdate: Event
  * Fired when the content of the overlay is updated
@@ -37,8 +37,8 @@ export abstract class DivOverlay extends Layer {
 	_latlng: LatLng | undefined;
 	_source: any; // TODO
 	_content: string | HTMLElement;
-	_container = DomUtil.create('div');
-	_contentNode = this._container;
+	_container!: HTMLElement; // created lazily by _initLayout() when first added to a map
+	_contentNode!: HTMLElement; // created lazily by _initLayout() when first added to a map
 	_removeTimeout: number | undefined;
 
 	constructor(latlng?: LatLng, options?: Partial<DivOverlayOptions>)
@@ -9,7 +9,7 @@ import type { Map } from '../map';
  * any layers added or removed from the group will be added/removed on the map as
  * well. Extends `Layer`.
  *
- *  - [`bindTooltip`](#layer-bindtooltip) binds a tooltip to all of the layers at once
+ *  - [`bindTooltip`](#tooltip-bindtooltip) binds a tooltip to all of the layers at once
  *  - Events are propagated to the `LayerGroup`, so if the group has an event
  * handler, it will handle events from any of the layers. This includes mouse events
  * and custom events.
@@ -18,9 +18,9 @@ import type { Map } from '../map';
  * ```js
  * const lg = new LayerGroup([marker1, marker2])
  * 	.addLayer(polyline)
- * 	.bindTooltip('Hello world!')
  * 	.on('click', function() { alert('Clicked on a member of the group!'); });
  * 
+ * bindTooltip(lg, 'Hello world!');
  * map.addLayer(lg);
  * ```
  * @event layeradd: LayerEvent
@@ -41,6 +41,7 @@ export class LayerGroup extends Layer {
 		this._isLayerGroup = true;
 
 		for (const layer of layers) {
+			layer.addEventParent(this);
 			this._layers[Util.stamp(layer)] = layer;
 		}
 	}
@@ -53,14 +54,6 @@ export class LayerGroup extends Layer {
 		this.eachLayer(map.removeLayer, map);
 	}
 
-	_addFocusListeners(): void {
-		this.eachLayer(this._addFocusListenersOnLayer, this);
-	}
-
-	_setAriaDescribedBy(): void {
-		this.eachLayer(this._setAriaDescribedByOnLayer, this);
-	}
-
 	/**
 	 * Adds the given layer to the group. Does nothing if the layer is already
 	 * a member of this group.
@@ -126,7 +119,7 @@ export class LayerGroup extends Layer {
 	 *
 	 * ```
 	 * group.eachLayer(function(layer){
-	 *     layer.bindTooltip('Hello');
+	 *     bindTooltip(layer, 'Hello');
 	 * });
 	 * ```
 	 */
@@ -0,0 +1,434 @@
+import { Util, type DisposeFn, type HandlerMap } from '../core';
+import { DomEvent, DomUtil } from '../dom';
+import { LatLng } from '../geog';
+import { Point } from '../geom';
+import type { Map } from '../map';
+import { DivOverlay, type DivOverlayOptions } from './DivOverlay.js';
+import type { Layer } from './Layer.js';
+
+export interface PopupOptions extends DivOverlayOptions {
+	/**
+	 * Max width of the popup, in pixels. 300 by default.
+	 */
+	maxWidth: number;
+	/**
+	 * Min width of the popup, in pixels. 50 by default.
+	 */
+	minWidth: number;
+	/**
+	 * If set, creates a scrollable container of the given height (in pixels) inside a
+	 * popup if its content exceeds it. Undefined by default.
+	 */
+	maxHeight: number | undefined;
+	/**
+	 * Set it to `false` if you don't want the map to do panning animation to fit the
+	 * opened popup. True by default.
+	 */
+	autoPan: boolean;
+	/**
+	 * The margin between the popup and the top left corner of the map view after
+	 * autopanning was performed. Falls back to `autoPanPadding` by default.
+	 */
+	autoPanPaddingTopLeft: Point | undefined;
+	/**
+	 * The margin between the popup and the bottom right corner of the map view after
+	 * autopanning was performed. Falls back to `autoPanPadding` by default.
+	 */
+	autoPanPaddingBottomRight: Point | undefined;
+	/**
+	 * Equivalent of setting both top left and bottom right autopan padding to the same
+	 * value. (5, 5) by default.
+	 */
+	autoPanPadding: Point;
+	/**
+	 * Set it to `true` if you want to prevent users from panning the popup off of the
+	 * screen while it is open. False by default.
+	 */
+	keepInView: boolean;
+	/**
+	 * Controls the presence of a close button in the popup. True by default.
+	 */
+	closeButton: boolean;
+	/**
+	 * Set it to `false` if you want to override the default behavior of the popup
+	 * closing when another popup is opened. True by default.
+	 */
+	autoClose: boolean;
+	/**
+	 * Set it to `false` if you want to override the default behavior of the Escape key
+	 * for closing the popup. True by default.
+	 */
+	closeOnEscapeKey: boolean;
+	/**
+	 * Set it to `false` if you want to override the default behavior of the popup
+	 * closing when the user clicks the map. True by default.
+	 */
+	closeOnClick: boolean;
+}
+
+// The last popup opened on each map, so it can be closed when another one opens (unless
+// it has `autoClose: false`); kept out of the map so that popups remain tree-shakeable
+const openPopups = new WeakMap<Map, Popup>();
+
+/**
+ * Used to open popups in certain places of the map. Popups have a close button, grow to
+ * fit their content (within `minWidth`/`maxWidth`), and pan the map so they are fully
+ * visible. Use [`bindPopup`](#popup-bindpopup) to open a popup when a layer is clicked,
+ * or open a standalone popup on the map:
+ *
+ * ```js
+ * const popup = new Popup(latlng, {
+ *     content: '<p>Hello world!<br />This is a nice popup.</p>',
+ * });
+ *
+ * popup.openOn(map);
+ * ```
+ *
+ * @event popupopen: PopupEvent
+ * Fired on the map (and the source layer, if any) when the popup is opened.
+ *
+ * @event popupclose: PopupEvent
+ * Fired on the map (and the source layer, if any) when the popup is closed.
+ *
+ * @event autopanstart: Event
+ * Fired on the map when it starts autopanning to fit an opened popup.
+ */
+export class Popup extends DivOverlay {
+
+	declare options: PopupOptions;
+
+	_wrapper: HTMLElement | undefined;
+	_tipContainer: HTMLElement | undefined;
+	_tip: HTMLElement | undefined;
+	_closeButton: HTMLAnchorElement | undefined;
+	_containerWidth = 0;
+	_containerLeft = 0;
+	_containerBottom = 0;
+	_autopanning = false;
+
+	constructor(latlng?: LatLng, options?: Partial<PopupOptions>)
+	constructor(options?: Partial<PopupOptions>, source?: any /* TODO */)
+	constructor(latlngOrOptions?: LatLng | Partial<PopupOptions>, optionsOrSource?: any /* TODO */) {
+		super(latlngOrOptions as any, optionsOrSource);
+
+		Util.setOptions(
+			this,
+			(!(latlngOrOptions instanceof LatLng) && latlngOrOptions) || optionsOrSource,
+			{
+				pane: 'popup',
+				offset: new Point(0, 7),
+				maxWidth: 300,
+				minWidth: 50,
+				maxHeight: undefined,
+				autoPan: true,
+				autoPanPaddingTopLeft: undefined,
+				autoPanPaddingBottomRight: undefined,
+				autoPanPadding: new Point(5, 5),
+				keepInView: false,
+				closeButton: true,
+				autoClose: true,
+				closeOnEscapeKey: true,
+				closeOnClick: true,
+			},
+		);
+	}
+
+	// Adds the popup to the map and closes the previous one (unless it has `autoClose: false`).
+	openOn(map: Map = this._source._map): this {
+		const previous = openPopups.get(map);
+
+		if (previous && previous !== this && previous.options.autoClose) {
+			previous.close();
+		}
+
+		openPopups.set(map, this);
+
+		return super.openOn(map);
+	}
+
+	onAdd(map: Map): this {
+		super.onAdd(map);
+
+		map.fire('popupopen', { popup: this });
+
+		if (this._source) {
+			this._source.fire('popupopen', { popup: this }, true);
+
+			// Clicking a point layer again toggles its popup, so prevent the map from closing
+			// the popup (on 'preclick') right before the layer reopens it
+			if (isPointLayer(this._source)) {
+				this._source.on('preclick', DomEvent.stopPropagation);
+			}
+		}
+
+		return this;
+	}
+
+	onRemove(map: Map): void {
+		super.onRemove(map);
+
+		if (openPopups.get(map) === this) {
+			openPopups.delete(map);
+		}
+
+		map.fire('popupclose', { popup: this });
+
+		if (this._source) {
+			this._source.fire('popupclose', { popup: this }, true);
+
+			if (isPointLayer(this._source)) {
+				this._source.off('preclick', DomEvent.stopPropagation);
+			}
+		}
+	}
+
+	getEvents(): HandlerMap {
+		const events = super.getEvents();
+
+		if (this.options.closeOnClick) {
+			events.preclick = this.close;
+		}
+		if (this.options.closeOnEscapeKey) {
+			events.keydown = this._onKeyDown;
+		}
+		if (this.options.keepInView) {
+			events.moveend = this._adjustPan;
+		}
+
+		return events;
+	}
+
+	_initLayout(): void {
+		const
+			prefix = 'leaflet-popup',
+			container = this._container = DomUtil.create('div', `${prefix} ${this.options.className || ''} leaflet-zoom-animated`),
+			wrapper = this._wrapper = DomUtil.create('div', `${prefix}-content-wrapper`, container);
+
+		this._contentNode = DomUtil.create('div', `${prefix}-content`, wrapper);
+
+		DomEvent.disableClickPropagation(container);
+		DomEvent.disableScrollPropagation(this._contentNode);
+		DomEvent.on(container, 'contextmenu', DomEvent.stopPropagation);
+
+		this._tipContainer = DomUtil.create('div', `${prefix}-tip-container`, container);
+		this._tip = DomUtil.create('div', `${prefix}-tip`, this._tipContainer);
+
+		if (this.options.closeButton) {
+			const closeButton = this._closeButton = DomUtil.create('a', `${prefix}-close-button`, container) as HTMLAnchorElement;
+
+			// Overrides the implicit role=link of <a> elements
+			closeButton.setAttribute('role', 'button');
+			closeButton.setAttribute('aria-label', 'Close popup');
+			closeButton.href = '#close';
+			closeButton.innerHTML = '<span aria-hidden="true">&#215;</span>';
+
+			DomEvent.on(closeButton, 'click', (e: MouseEvent) => {
+				DomEvent.preventDefault(e);
+				this.close();
+			});
+		}
+	}
+
+	_updateLayout(): void {
+		const
+			container = this._contentNode,
+			style = container.style,
+			{ maxWidth, minWidth, maxHeight } = this.options,
+			scrolledClass = 'leaflet-popup-scrolled';
+
+		style.width = '';
+		style.whiteSpace = 'nowrap';
+
+		const width = Math.max(Math.min(container.offsetWidth, maxWidth), minWidth);
+
+		style.width = `${width + 1}px`;
+		style.whiteSpace = '';
+		style.height = '';
+
+		if (maxHeight && container.offsetHeight > maxHeight) {
+			style.height = `${maxHeight}px`;
+			container.classList.add(scrolledClass);
+		} else {
+			container.classList.remove(scrolledClass);
+		}
+
+		this._containerWidth = this._container.offsetWidth;
+	}
+
+	_updatePosition(): void {
+		if (!this._map) { return; }
+
+		const
+			pos = this._map.latLngToLayerPoint(this._latlng!), // TODO: null safety
+			anchor = this._getAnchor();
+
+		let offset = this.options.offset;
+
+		if (this._zoomAnimated) {
+			DomUtil.setPosition(this._container, pos.add(anchor));
+		} else {
+			offset = offset.add(pos).add(anchor);
+		}
+
+		const
+			bottom = this._containerBottom = -offset.y,
+			left = this._containerLeft = -Math.round(this._containerWidth / 2) + offset.x;
+
+		// Bottom position the popup in case the height of the popup changes (images loading etc)
+		this._container.style.bottom = `${bottom}px`;
+		this._container.style.left = `${left}px`;
+	}
+
+	_animateZoom(ev: any): void {
+		const
+			// TODO: null safety
+			pos = this._map!._latLngToNewLayerPoint(this._latlng!, ev.zoom, ev.center),
+			anchor = this._getAnchor();
+
+		DomUtil.setPosition(this._container, pos.add(anchor));
+	}
+
+	_adjustPan(): void {
+		if (!this.options.autoPan || !this._map) { return; }
+
+		this._map._panAnim?.stop();
+
+		// We can endlessly recurse if keepInView is set and the view resets, so guard against
+		// that by exiting early if we're responding to our own autopan
+		if (this._autopanning) {
+			this._autopanning = false;
+			return;
+		}
+
+		const
+			map = this._map,
+			marginBottom = parseInt(getComputedStyle(this._container).marginBottom, 10) || 0,
+			containerHeight = this._container.offsetHeight + marginBottom,
+			containerWidth = this._containerWidth,
+			layerPos = new Point(this._containerLeft, -containerHeight - this._containerBottom)
+				.add(DomUtil.getPosition(this._container)),
+			containerPos = map.layerPointToContainerPoint(layerPos),
+			padding = this.options.autoPanPadding,
+			paddingTL = this.options.autoPanPaddingTopLeft || padding,
+			paddingBR = this.options.autoPanPaddingBottomRight || padding,
+			size = map.getSize();
+
+		let dx = 0, dy = 0;
+
+		if (containerPos.x + containerWidth + paddingBR.x > size.x) { // right
+			dx = containerPos.x + containerWidth - size.x + paddingBR.x;
+		}
+		if (containerPos.x - dx - paddingTL.x < 0) { // left
+			dx = containerPos.x - paddingTL.x;
+		}
+		if (containerPos.y + containerHeight + paddingBR.y > size.y) { // bottom
+			dy = containerPos.y + containerHeight - size.y + paddingBR.y;
+		}
+		if (containerPos.y - dy - paddingTL.y < 0) { // top
+			dy = containerPos.y - paddingTL.y;
+		}
+
+		if (dx || dy) {
+			// Track that we're autopanning, as this function will be re-ran on moveend
+			if (this.options.keepInView) {
+				this._autopanning = true;
+			}
+
+			map.fire('autopanstart').panBy(new Point(dx, dy));
+		}
+	}
+
+	_onKeyDown(e: { originalEvent: KeyboardEvent }): void {
+		if (e.originalEvent.key === 'Escape') {
+			this.close();
+		}
+	}
+
+	_getAnchor(): Point {
+		// Where should we anchor the popup on the source layer?
+		return this._source?._getPopupAnchor?.() || new Point(0, 0);
+	}
+
+}
+
+/**
+ * Binds a popup to the given layer (or every layer in a `LayerGroup`) so that it opens
+ * when the layer is clicked. Point layers like markers toggle the popup, while lines and
+ * polygons open it where they were clicked. Either pass a `Popup` instance (which the
+ * options are applied to), or content and options for a new one. Returns a function that unbinds the popup (closing it if it
+ * is open).
+ *
+ * ```js
+ * const unbind = bindPopup(polygon, 'I am a polygon.', { maxWidth: 200 });
+ *
+ * // Keep the instance around to open it programmatically
+ * const popup = new Popup({ content: 'Hello world!' });
+ *
+ * bindPopup(marker, popup);
+ * popup.toggle(marker);
+ * ```
+ */
+export function bindPopup(
+	layer: Layer,
+	content: string | HTMLElement | Popup,
+	options?: Partial<PopupOptions>,
+): DisposeFn {
+	let popup: Popup;
+
+	if (content instanceof Popup) {
+		popup = content;
+		Util.setOptions(popup, options);
+	} else {
+		popup = new Popup({ ...options, content }, layer);
+	}
+
+	popup._source = layer;
+
+	const
+		events: HandlerMap = {
+			click(e: any): void {
+				const target = e.propagatedFrom || e.target;
+
+				if (!target._map) { return; }
+
+				DomEvent.stop(e);
+
+				if (popup._source === target && isPointLayer(target) && popup.isOpen()) {
+					popup.close();
+					return;
+				}
+
+				popup._source = target;
+
+				if (popup._prepareOpen(e.latlng)) {
+					popup.openOn(target._map);
+				}
+			},
+			move(e: any): void {
+				if (popup.isOpen()) {
+					popup.setLatLng(e.latlng);
+				}
+			},
+			remove(): void {
+				popup.close();
+			},
+		};
+
+	layer.on(events);
+
+	let disposed = false;
+
+	return (): void => {
+		if (disposed) { return; }
+
+		disposed = true;
+		layer.off(events);
+		popup.close();
+	};
+}
+
+// Point layers (markers, circle markers) are anchored to a single position, so clicking
+// them again should toggle the popup instead of moving it to the clicked point
+function isPointLayer(layer: Layer): boolean {
+	return typeof layer.getLatLng === 'function';
+}
@@ -1,9 +1,11 @@
-import { Util, type HandlerMap } from '../core';
-import { DomUtil } from '../dom';
+import { Util, type DisposeFn, type HandlerMap } from '../core';
+import { DomEvent, DomUtil } from '../dom';
 import { LatLng } from '../geog';
 import { Point } from '../geom';
 import type { Map } from '../map';
 import { DivOverlay, type DivOverlayOptions } from './DivOverlay.js';
+import type { Layer } from './Layer.js';
+import type { LayerGroup } from './LayerGroup.js';
 
 export interface TooltipOptions extends DivOverlayOptions {
 	/**
@@ -30,25 +32,17 @@ export interface TooltipOptions extends DivOverlayOptions {
 /**
  * Used to display small texts on top of map layers.
  *
- * If you want to just bind a tooltip to marker:
+ * Use [`bindTooltip`](#tooltip-bindtooltip) to show a tooltip when a layer (a marker,
+ * a path, or every layer of a `LayerGroup`) is hovered or focused:
  *
  * ```js
- * marker.bindTooltip("my tooltip text").openTooltip();
+ * bindTooltip(marker, 'my tooltip text');
  * ```
- * Path overlays like polylines also have a `bindTooltip` method.
  *
  * A tooltip can be also standalone:
  *
  * ```js
- * const tooltip = L.tooltip()
- * 	.setLatLng(latlng)
- * 	.setContent('Hello world!<br />This is a nice tooltip.');
- * 
- * map.addLayer(tooltip);
- * ```
- * or
- * ```js
- * const tooltip = L.tooltip(latlng, {
+ * const tooltip = new Tooltip(latlng, {
  *     content: 'Hello world!<br />This is a nice tooltip.',
  * });
  * 
@@ -61,16 +55,16 @@ export interface TooltipOptions extends DivOverlayOptions {
  * - the `offset` Tooltip option: it defaults to [0, 0], and it's specific to one tooltip.
  *   Add a positive x offset to move the tooltip to the right, and a positive y offset to
  *   move it to the bottom. Negatives will move to the left and top.
- * - the `tooltipAnchor` Icon option: this will only be considered for Marker. You
- *   should adapt this value if you use a custom icon.
+ * - the icon of a `Marker`: tooltips bound to a marker (and not `sticky`) are anchored
+ *   to the vertical center of the icon's right edge, based on the icon's size and anchor.
  */
 export class Tooltip extends DivOverlay {
 
 	declare options: TooltipOptions;
 
-	constructor(latlng?: LatLng, options?: Partial<DivOverlayOptions>)
-	constructor(options?: Partial<DivOverlayOptions>, source?: any /* TODO */)
-	constructor(latlngOrOptions?: LatLng | Partial<DivOverlayOptions>, optionsOrSource?: any /* TODO */) {
+	constructor(latlng?: LatLng, options?: Partial<TooltipOptions>)
+	constructor(options?: Partial<TooltipOptions>, source?: any /* TODO */)
+	constructor(latlngOrOptions?: LatLng | Partial<TooltipOptions>, optionsOrSource?: any /* TODO */) {
 		super(latlngOrOptions as any, optionsOrSource);
 
 		Util.setOptions(
@@ -231,3 +225,156 @@ export class Tooltip extends DivOverlay {
 	}
 
 }
+
+/**
+ * Binds a tooltip to the given layer (or every layer in a `LayerGroup`). By default, the
+ * tooltip is shown while the layer is hovered, or focused with the keyboard, and it is
+ * open all the time while the layer is on the map when the [`permanent`](#tooltip-permanent)
+ * option is set. Focusable elements of the layer(s) get an `aria-describedby` attribute
+ * pointing to the tooltip so screen readers announce it. Either pass a `Tooltip` instance
+ * (which the options are applied to), or content and options for a new one. Returns a
+ * function that unbinds the tooltip (closing it if it is open).
+ *
+ * ```js
+ * const unbind = bindTooltip(marker, 'Hello world!', { direction: 'top' });
+ *
+ * bindTooltip(polyline, 'I follow the mouse', { sticky: true });
+ * ```
+ */
+export function bindTooltip(
+	layer: Layer,
+	content: string | HTMLElement | Tooltip,
+	options?: Partial<TooltipOptions>,
+): DisposeFn {
+	let tooltip: Tooltip;
+
+	if (content instanceof Tooltip) {
+		tooltip = content;
+		Util.setOptions(tooltip, options);
+	} else {
+		tooltip = new Tooltip({ ...options, content }, layer);
+	}
+
+	const
+		{ permanent, sticky } = tooltip.options,
+		// Elements which were given an `aria-describedby` attribute, with their focus listener
+		described: [el: HTMLElement, onFocus: () => void][] = [];
+
+	tooltip._source = layer;
+
+	let
+		waitingForMoveEnd = false,
+		disposed = false;
+
+	function open(target: Layer, latlng?: LatLng): void {
+		const map = target._map;
+
+		if (!map || disposed) { return; }
+
+		// If the map is being dragged, show the tooltip once it's done
+		if (map.dragging?.moving()) {
+			if (!waitingForMoveEnd) {
+				waitingForMoveEnd = true;
+				map.on('moveend', () => {
+					waitingForMoveEnd = false;
+					open(target, latlng);
+				}, undefined, true);
+			}
+			return;
+		}
+
+		tooltip._source = target;
+
+		if (tooltip._prepareOpen(latlng)) {
+			tooltip.openOn(map);
+		}
+	}
+
+	function close(): void {
+		tooltip.close();
+	}
+
+	function describe(target: Layer): void {
+		const el = target.getElement?.();
+
+		if (!el || described.some(([describedEl]) => describedEl === el)) { return; }
+
+		const onFocus = (): void => open(target);
+
+		described.push([el, onFocus]);
+
+		// The ID is assigned to the tooltip container when it is created, so the attribute
+		// can be set before the tooltip has ever been opened
+		el.setAttribute('aria-describedby', `leaflet-tooltip-${Util.stamp(tooltip)}`);
+
+		if (!permanent) {
+			DomEvent.on(el, 'focus', onFocus);
+			DomEvent.on(el, 'blur', close);
+		}
+	}
+
+	function onAdd(): void {
+		if (layer._isLayerGroup) {
+			(layer as LayerGroup).eachLayer(describe);
+		} else {
+			describe(layer);
+		}
+
+		if (permanent) {
+			open(layer);
+		}
+	}
+
+	const events: HandlerMap = {
+		add: onAdd,
+		remove: close,
+		move(e: any): void {
+			let latlng = e.latlng;
+
+			// Mouse events on markers carry the marker position, so use the mouse instead
+			if (sticky && e.originalEvent) {
+				latlng = layer._map!.mouseEventToLatLng(e.originalEvent); // TODO: null safety
+			}
+
+			tooltip.setLatLng(latlng);
+		},
+	};
+
+	if (!permanent) {
+		events.mouseover = events.click = (e: any): void => {
+			open(e.propagatedFrom || e.target, sticky ? e.latlng : undefined);
+		};
+		events.mouseout = close;
+	}
+	if (sticky) {
+		events.mousemove = events.move;
+	}
+	if (layer._isLayerGroup) {
+		// Layers added to the group later on need to be described as well
+		events.layeradd = (e: { layer: Layer }): void => {
+			if (layer._map) {
+				describe(e.layer);
+			}
+		};
+	}
+
+	layer.on(events);
+
+	if (layer._map) {
+		onAdd();
+	}
+
+	return (): void => {
+		if (disposed) { return; }
+
+		disposed = true;
+		layer.off(events);
+		tooltip.close();
+
+		for (const [el, onFocus] of described) {
+			el.removeAttribute('aria-describedby');
+			DomEvent.off(el, 'focus', onFocus);
+			DomEvent.off(el, 'blur', close);
+		}
+	};
+}
@@ -0,0 +1,92 @@
+import type { Point } from '../../geom';
+
+/**
+ * A spatial hash of objects by their (projected) pixel coordinates, used to find the
+ * closest object to a point without looking at every object. Objects remember the point
+ * they were added at, so they can be removed without passing it again.
+ */
+export class DistanceGrid<T extends object> {
+
+	_cells: Dict<T[]> = Object.create(null);
+	_points = new WeakMap<T, Point>();
+
+	constructor(
+		/**
+		 * Size of the grid cells, which is also the maximum distance (in pixels) at which
+		 * [`getNearObject`](#distancegrid-getnearobject) finds objects.
+		 */
+		public _cellSize: number,
+	) {}
+
+	addObject(obj: T, point: Point): void {
+		const key = this._key(this._coord(point.x), this._coord(point.y));
+
+		(this._cells[key] ||= []).push(obj);
+		this._points.set(obj, point);
+	}
+
+	// Returns `false` if the object was not in the grid.
+	removeObject(obj: T): boolean {
+		const point = this._points.get(obj);
+
+		if (!point) { return false; }
+
+		const
+			key = this._key(this._coord(point.x), this._coord(point.y)),
+			cell = this._cells[key];
+
+		cell.splice(cell.indexOf(obj), 1);
+
+		if (!cell.length) {
+			delete this._cells[key];
+		}
+
+		this._points.delete(obj);
+
+		return true;
+	}
+
+	// Returns the closest object within the cell size of the given point, if any.
+	getNearObject(point: Point): T | undefined {
+		const
+			x = this._coord(point.x),
+			y = this._coord(point.y);
+
+		let
+			closest: T | undefined,
+			closestDistSq = this._cellSize * this._cellSize;
+
+		for (let i = x - 1; i <= x + 1; i++) {
+			for (let j = y - 1; j <= y + 1; j++) {
+				const cell = this._cells[this._key(i, j)];
+
+				if (!cell) { continue; }
+
+				for (const obj of cell) {
+					const
+						objPoint = this._points.get(obj)!,
+						dx = objPoint.x - point.x,
+						dy = objPoint.y - point.y,
+						distSq = dx * dx + dy * dy;
+
+					if (distSq <= closestDistSq) {
+						closestDistSq = distSq;
+						closest = obj;
+					}
+				}
+			}
+		}
+
+		return closest;
+	}
+
+	_coord(x: number): number {
+		const coord = Math.floor(x / this._cellSize);
+		return isFinite(coord) ? coord : x;
+	}
+
+	_key(x: number, y: number): string {
+		return `${x}:${y}`;
+	}
+
+}
@@ -0,0 +1,124 @@
+import { LatLng, LatLngBounds } from '../../geog';
+import type { Marker } from '../marker';
+
+/**
+ * A cluster of markers at a particular zoom level, as computed by a `MarkerClusterGroup`.
+ * Clusters form a tree: the children of a cluster are the clusters it splits into at the
+ * next zoom level, plus the markers which are no longer clustered from that zoom level on.
+ * You do not create clusters yourself, but you get them in `clusterclick` events and in
+ * the [`iconCreateFunction`](#markerclustergroup-iconcreatefunction) option.
+ */
+export class MarkerCluster {
+
+	_markers: Marker[] = [];
+	_childClusters: MarkerCluster[] = [];
+	_childCount = 0;
+	_parent: MarkerCluster | undefined;
+	_bounds = new LatLngBounds();
+	_latlng: LatLng | undefined;
+	_boundsNeedUpdate = false;
+
+	// Marker showing the cluster icon on the map, created on demand and dropped whenever
+	// the contents of the cluster change so the icon is recreated with the new count
+	_marker: Marker | undefined;
+
+	constructor(public _zoom: number) {}
+
+	// Returns the total number of markers in the cluster (including nested clusters).
+	getChildCount(): number {
+		return this._childCount;
+	}
+
+	// Returns all the markers in the cluster (including nested clusters).
+	getAllChildMarkers(out: Marker[] = []): Marker[] {
+		out.push(...this._markers);
+
+		for (const child of this._childClusters) {
+			child.getAllChildMarkers(out);
+		}
+
+		return out;
+	}
+
+	// Returns the bounds of all the markers in the cluster.
+	getBounds(): LatLngBounds {
+		this._updateBounds();
+		return this._bounds;
+	}
+
+	// Returns the center of all the markers in the cluster, which is where its icon is shown.
+	getLatLng(): LatLng {
+		this._updateBounds();
+		return this._latlng!; // clusters always have at least one marker
+	}
+
+	// Returns the zoom level the cluster was computed for.
+	getZoom(): number {
+		return this._zoom;
+	}
+
+	_addMarker(marker: Marker): void {
+		this._markers.push(marker);
+		this._changed(1);
+	}
+
+	_removeMarker(marker: Marker): void {
+		this._markers.splice(this._markers.indexOf(marker), 1);
+		this._changed(-1);
+	}
+
+	_addCluster(cluster: MarkerCluster): void {
+		this._childClusters.push(cluster);
+		cluster._parent = this;
+		this._changed(cluster._childCount);
+	}
+
+	_removeCluster(cluster: MarkerCluster): void {
+		this._childClusters.splice(this._childClusters.indexOf(cluster), 1);
+		cluster._parent = undefined;
+		this._changed(-cluster._childCount);
+	}
+
+	// Updates the marker count of this cluster and all of its ancestors after children
+	// were added or removed
+	_changed(countDelta: number): void {
+		for (let cluster: MarkerCluster | undefined = this; cluster; cluster = cluster._parent) {
+			cluster._childCount += countDelta;
+			cluster._boundsNeedUpdate = true;
+			cluster._marker = undefined;
+		}
+	}
+
+	_updateBounds(): void {
+		if (!this._boundsNeedUpdate) { return; }
+
+		const bounds = new LatLngBounds();
+
+		// The center is the average position of all the markers, so weigh child clusters by
+		// the number of markers in them
+		let lat = 0, lng = 0;
+
+		for (const marker of this._markers) {
+			const latlng = marker.getLatLng();
+
+			bounds.extend(latlng);
+			lat += latlng.lat;
+			lng += latlng.lng;
+		}
+
+		for (const child of this._childClusters) {
+			const
+				latlng = child.getLatLng(),
+				count = child._childCount;
+
+			bounds.extend(child._bounds);
+			lat += latlng.lat * count;
+			lng += latlng.lng * count;
+		}
+
+		this._bounds = bounds;
+		this._latlng = new LatLng(lat / this._childCount, lng / this._childCount);
+		this._boundsNeedUpdate = false;
+	}
+
+}
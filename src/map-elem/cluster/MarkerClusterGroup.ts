@@ -0,0 +1,654 @@
+import { Util, type HandlerMap } from '../../core';
+import { LatLng, LatLngBounds } from '../../geog';
+import { Point } from '../../geom';
+import type { Map, ZoomAnimationEvent } from '../../map';
+import { LayerGroup, type Layer, type LayerOptions } from '..';
+import { Marker, type Icon } from '../marker';
+import { Polyline, type Renderer } from '../vector';
+import { defaultClusterIcon } from './cluster-icon.js';
+import { DistanceGrid } from './DistanceGrid.js';
+import { MarkerCluster } from './MarkerCluster.js';
+
+export interface MarkerClusterGroupOptions extends LayerOptions {
+	/**
+	 * The maximum distance (in pixels) between a marker and a cluster for the marker to be
+	 * added to the cluster. Smaller values make more, smaller clusters. 80 by default.
+	 */
+	maxClusterRadius: number;
+	/**
+	 * The highest zoom level at which markers are clustered. Markers which are still
+	 * clustered at this zoom level are spiderfied when their cluster is clicked. The map's
+	 * `maxZoom` (or 18 if the map has no `maxZoom`) by default.
+	 */
+	maxZoom: number | undefined;
+	/**
+	 * Whether clicking a cluster zooms the map to the bounds of its markers. True by default.
+	 */
+	zoomToBoundsOnClick: boolean;
+	/**
+	 * Whether clicking a cluster which cannot be split by zooming in (because the map is at
+	 * the `maxZoom`, or its markers have identical coordinates) spreads its markers out
+	 * around it so they can be clicked individually. True by default.
+	 */
+	spiderfyOnMaxZoom: boolean;
+	/**
+	 * If set, spiderfied markers are connected to the center of their cluster with lines
+	 * drawn by this renderer. Undefined (no lines) by default.
+	 */
+	spiderLegRenderer: Renderer | undefined;
+	/**
+	 * Whether to animate clusters splitting and merging while the map zooms. Markers move
+	 * out of (and into) their clusters, which fade out. True by default.
+	 */
+	animate: boolean;
+	/**
+	 * Function creating the icon for a cluster. It is called again whenever the markers in
+	 * the cluster change. `defaultClusterIcon` by default.
+	 */
+	iconCreateFunction: (cluster: MarkerCluster) => Icon;
+}
+
+/**
+ * A `LayerGroup` of markers which are grouped into clusters, each shown as a single icon
+ * with the number of markers in it, so that the map stays usable with thousands of
+ * markers. Clusters are pre-computed for every zoom level when the group is added to a
+ * map, and updated incrementally as markers are added, removed or moved. Only the markers
+ * and clusters around the current view are added to the map. Extends `LayerGroup`.
+ *
+ * ```js
+ * const stops = new MarkerClusterGroup(markers, { maxClusterRadius: 60 });
+ *
+ * stops.on('clusterclick', e => console.log(e.cluster.getChildCount()));
+ * map.addLayer(stops);
+ * ```
+ *
+ * @event clusterclick: ClusterEvent
+ * Fired when a cluster icon is clicked, with the `cluster` and the `originalEvent`.
+ *
+ * @event spiderfied: ClusterEvent
+ * Fired when the markers of a `cluster` were spread out (with `markers` holding them).
+ *
+ * @event unspiderfied: ClusterEvent
+ * Fired when the spread out markers of a `cluster` were put back into it.
+ */
+export class MarkerClusterGroup extends LayerGroup {
+
+	declare options: MarkerClusterGroupOptions;
+	declare _layers: { [leafletID: string]: Marker };
+
+	// Cluster containing everything, one level below the lowest zoom level which has
+	// clusters; only defined while the group is on a map (projecting needs its CRS)
+	_topCluster: MarkerCluster | undefined;
+	_minZoom = 0;
+	_maxZoom = 0;
+
+	// For every zoom level, the clusters and the markers which are not clustered
+	_gridClusters: Record<number, DistanceGrid<MarkerCluster>> = {};
+	_gridUnclustered: Record<number, DistanceGrid<Marker>> = {};
+	_parentClusters = new WeakMap<Marker, MarkerCluster>();
+	_clustersByMarker = new WeakMap<Marker, MarkerCluster>();
+
+	// Zoom level of the clusters currently on the map, and the layers (markers and cluster
+	// markers) which are on the map
+	_clusterZoom = 0;
+	_visible = new Set<Marker>();
+
+	_spiderfied: MarkerCluster | undefined;
+	_spiderLatLngs: [marker: Marker, latlng: LatLng][] = [];
+	_spiderLegs: Polyline[] = [];
+	_spiderfying = false;
+
+	constructor(markers: Marker[] = [], options?: Partial<MarkerClusterGroupOptions>) {
+		super([]);
+
+		Util.setOptions(this, options, {
+			pane: 'marker',
+			maxClusterRadius: 80,
+			maxZoom: undefined,
+			zoomToBoundsOnClick: true,
+			spiderfyOnMaxZoom: true,
+			spiderLegRenderer: undefined,
+			animate: true,
+			iconCreateFunction: defaultClusterIcon,
+		});
+
+		this.addLayers(markers);
+	}
+
+	onAdd(map: Map): this {
+		const mapMaxZoom = map.options.maxZoom;
+
+		this._minZoom = Math.floor(map.options.minZoom);
+		this._maxZoom = this.options.maxZoom ?? (isFinite(mapMaxZoom) ? mapMaxZoom : 18);
+		this._topCluster = new MarkerCluster(this._minZoom - 1);
+		this._gridClusters = {};
+		this._gridUnclustered = {};
+
+		for (let zoom = this._minZoom; zoom <= this._maxZoom; zoom++) {
+			this._gridClusters[zoom] = new DistanceGrid(this.options.maxClusterRadius);
+			this._gridUnclustered[zoom] = new DistanceGrid(this.options.maxClusterRadius);
+		}
+
+		for (const marker of Object.values(this._layers)) {
+			this._addToTree(marker);
+		}
+
+		this._clusterZoom = this._zoomFor(map._zoom);
+		this._refresh();
+
+		return this;
+	}
+
+	onRemove(map: Map): void {
+		this._unspiderfy();
+
+		for (const layer of this._visible) {
+			this._hide(layer);
+		}
+
+		this._visible.clear();
+		this._topCluster = undefined;
+		this._gridClusters = {};
+		this._gridUnclustered = {};
+		this._parentClusters = new WeakMap();
+		this._clustersByMarker = new WeakMap();
+	}
+
+	getEvents(): HandlerMap {
+		return {
+			zoomstart: this._unspiderfy,
+			zoomanim: this._onZoomAnim,
+			moveend: this._onMoveEnd,
+			click: this._unspiderfy,
+		};
+	}
+
+	/**
+	 * Adds the given marker to the group, and to the clusters if the group is on a map.
+	 * Does nothing if the marker is already a member of this group.
+	 */
+	addLayer(marker: Marker): this {
+		return this.addLayers([marker]);
+	}
+
+	/**
+	 * Adds the given markers to the group. This is much faster than adding them one at a
+	 * time while the group is on a map, as the map is only updated once.
+	 */
+	addLayers(markers: readonly Marker[]): this {
+		this._unspiderfy();
+
+		const added: Marker[] = [];
+
+		for (const marker of markers) {
+			const id = Util.stamp(marker);
+
+			if (id in this._layers) { continue; }
+
+			marker.addEventParent(this);
+			marker.on('move', this._onMarkerMove, this);
+			this._layers[id] = marker;
+
+			if (this._topCluster) {
+				this._addToTree(marker);
+			}
+
+			added.push(marker);
+		}
+
+		this._refresh();
+
+		for (const layer of added) {
+			this.fire('layeradd', { layer });
+		}
+
+		return this;
+	}
+
+	/**
+	 * Removes the given marker (or marker ID) from the group. Does nothing if the given
+	 * marker is not a member of this group.
+	 */
+	removeLayer(layerOrID: number | Layer): this {
+		const
+			id = typeof layerOrID === 'number' ? layerOrID : Util.stamp(layerOrID),
+			layer = this._layers[id];
+
+		if (!layer) {
+			return this;
+		}
+
+		this._unspiderfy();
+
+		layer.removeEventParent(this);
+		layer.off('move', this._onMarkerMove, this);
+
+		if (this._topCluster) {
+			this._removeFromTree(layer);
+		}
+
+		delete this._layers[id];
+		this._refresh();
+
+		return this.fire('layerremove', { layer });
+	}
+
+	// Returns the cluster (or the top level pseudo-cluster) the marker currently belongs to.
+	getParentCluster(marker: Marker): MarkerCluster | undefined {
+		return this._parentClusters.get(marker);
+	}
+
+	// Spreads out the markers of the given cluster around it, so they can be clicked.
+	spiderfy(cluster: MarkerCluster): this {
+		const map = this._map;
+
+		if (!map || cluster === this._spiderfied) { return this; }
+
+		this._unspiderfy();
+
+		const
+			markers = cluster.getAllChildMarkers(),
+			center = cluster.getLatLng(),
+			centerPoint = map.latLngToLayerPoint(center),
+			points = markers.length >= 9
+				? spiralPoints(markers.length, centerPoint)
+				: circlePoints(markers.length, centerPoint),
+			legRenderer = this.options.spiderLegRenderer;
+
+		this._spiderfied = cluster;
+		this._spiderfying = true;
+
+		markers.forEach((marker, i) => {
+			const latlng = map.layerPointToLatLng(points[i]);
+
+			this._spiderLatLngs.push([marker, marker.getLatLng()]);
+			marker.setLatLng(latlng);
+
+			if (legRenderer) {
+				const leg = new Polyline([center, latlng], {
+					renderer: legRenderer,
+					interactive: false,
+					weight: 1.5,
+					color: '#222',
+					opacity: 0.5,
+				});
+
+				this._spiderLegs.push(leg);
+				map.addLayer(leg);
+			}
+		});
+
+		this._spiderfying = false;
+		this._refresh();
+
+		return this.fire('spiderfied', { cluster, markers });
+	}
+
+	// Puts the spiderfied markers (if any) back into their cluster.
+	unspiderfy(): this {
+		this._unspiderfy();
+		return this;
+	}
+
+	_unspiderfy(): void {
+		const cluster = this._spiderfied;
+
+		if (!cluster) { return; }
+
+		this._spiderfying = true;
+
+		for (const [marker, latlng] of this._spiderLatLngs) {
+			marker.setLatLng(latlng);
+		}
+
+		this._spiderfying = false;
+
+		for (const leg of this._spiderLegs) {
+			this._map?.removeLayer(leg);
+		}
+
+		this._spiderfied = undefined;
+		this._spiderLatLngs = [];
+		this._spiderLegs = [];
+		this._refresh();
+
+		this.fire('unspiderfied', { cluster });
+	}
+
+	_addToTree(marker: Marker): void {
+		const
+			map = this._map!, // only called while on a map
+			latlng = marker.getLatLng();
+
+		for (let zoom = this._maxZoom; zoom >= this._minZoom; zoom--) {
+			const
+				point = map.project(latlng, zoom),
+				cluster = this._gridClusters[zoom].getNearObject(point);
+
+			// Join an existing cluster, which also makes the marker part of all of its parents
+			if (cluster) {
+				cluster._addMarker(marker);
+				this._parentClusters.set(marker, cluster);
+				return;
+			}
+
+			const other = this._gridUnclustered[zoom].getNearObject(point);
+
+			// Form a new cluster with a marker which was not clustered at this zoom level yet,
+			// plus clusters containing just the new one for every zoom level down to the
+			// cluster the other marker was in
+			if (other) {
+				const
+					parent = this._parentClusters.get(other)!,
+					otherLatLng = other.getLatLng();
+
+				let newCluster = new MarkerCluster(zoom);
+
+				parent._removeMarker(other);
+				newCluster._addMarker(other);
+				newCluster._addMarker(marker);
+				this._parentClusters.set(other, newCluster);
+				this._parentClusters.set(marker, newCluster);
+				this._gridClusters[zoom].addObject(newCluster, map.project(otherLatLng, zoom));
+
+				for (let z = zoom - 1; z > parent._zoom; z--) {
+					const child = newCluster;
+
+					newCluster = new MarkerCluster(z);
+					newCluster._addCluster(child);
+					this._gridClusters[z].addObject(newCluster, map.project(otherLatLng, z));
+				}
+
+				parent._addCluster(newCluster);
+
+				for (let z = zoom; z >= this._minZoom; z--) {
+					this._gridUnclustered[z].removeObject(other);
+				}
+				return;
+			}
+
+			this._gridUnclustered[zoom].addObject(marker, point);
+		}
+
+		this._topCluster!._addMarker(marker);
+		this._parentClusters.set(marker, this._topCluster!);
+	}
+
+	_removeFromTree(marker: Marker): void {
+		const map = this._map!; // only called while on a map
+
+		for (let zoom = this._maxZoom; zoom >= this._minZoom; zoom--) {
+			this._gridUnclustered[zoom].removeObject(marker);
+		}
+
+		let cluster = this._parentClusters.get(marker)!;
+
+		this._parentClusters.delete(marker);
+		cluster._removeMarker(marker);
+
+		// Dissolve the clusters which are left with a single marker, moving the marker up
+		while (cluster !== this._topCluster && cluster._childCount === 1) {
+			const
+				parent = cluster._parent!,
+				remaining = cluster._markers[0];
+
+			this._gridClusters[cluster._zoom].removeObject(cluster);
+			this._gridUnclustered[cluster._zoom].addObject(
+				remaining,
+				map.project(remaining.getLatLng(), cluster._zoom),
+			);
+
+			parent._removeCluster(cluster);
+			parent._addMarker(remaining);
+			this._parentClusters.set(remaining, parent);
+
+			cluster = parent;
+		}
+	}
+
+	_onMarkerMove(e: { target: Marker }): void {
+		// Spiderfied markers are moved around without leaving their cluster
+		if (this._spiderfying || !this._topCluster) { return; }
+
+		this._removeFromTree(e.target);
+		this._addToTree(e.target);
+		this._refresh();
+	}
+
+	_zoomFor(mapZoom: number): number {
+		return Math.max(this._minZoom, Math.min(Math.round(mapZoom), this._maxZoom));
+	}
+
+	// Returns the marker which shows the icon of the given cluster on the map.
+	_clusterMarker(cluster: MarkerCluster): Marker {
+		if (!cluster._marker) {
+			const marker = cluster._marker = new Marker(
+				cluster.getLatLng(),
+				this.options.iconCreateFunction(cluster),
+				{ pane: this.options.pane },
+			);
+
+			marker.on('click', (e: { originalEvent: MouseEvent }) => this._onClusterClick(cluster, e));
+			this._clustersByMarker.set(marker, cluster);
+		}
+
+		return cluster._marker;
+	}
+
+	_onClusterClick(cluster: MarkerCluster, e: { originalEvent: MouseEvent }): void {
+		const map = this._map;
+
+		if (!map) { return; }
+
+		this.fire('clusterclick', { cluster, originalEvent: e.originalEvent });
+
+		const
+			bounds = cluster.getBounds(),
+			zoom = Math.min(map.getBoundsZoom(bounds), this._maxZoom);
+
+		// Zooming in only helps if the cluster splits up at a higher zoom level
+		if (zoom > this._clusterZoom) {
+			if (this.options.zoomToBoundsOnClick) {
+				map.setView(bounds.getCenter(), zoom);
+			}
+		} else if (this.options.spiderfyOnMaxZoom) {
+			this.spiderfy(cluster);
+		}
+	}
+
+	// Collects the markers and cluster markers which should be on the map at the given
+	// zoom level within the given bounds
+	_collect(cluster: MarkerCluster, zoom: number, bounds: LatLngBounds, out: Set<Marker>): void {
+		if (cluster._zoom === zoom) {
+			if (cluster === this._spiderfied) {
+				for (const marker of cluster.getAllChildMarkers()) {
+					out.add(marker);
+				}
+			} else {
+				out.add(this._clusterMarker(cluster));
+			}
+			return;
+		}
+
+		for (const marker of cluster._markers) {
+			if (bounds.contains(marker.getLatLng())) {
+				out.add(marker);
+			}
+		}
+
+		for (const child of cluster._childClusters) {
+			if (bounds.intersects(child.getBounds())) {
+				this._collect(child, zoom, bounds, out);
+			}
+		}
+	}
+
+	// Synchronizes the layers on the map with the clusters at the current zoom level
+	_refresh(): void {
+		const map = this._map;
+
+		if (!map || !this._topCluster || map._animatingZoom) { return; }
+
+		const visible = new Set<Marker>();
+
+		this._collect(this._topCluster, this._clusterZoom, map.getBounds().pad(0.5), visible);
+
+		for (const layer of this._visible) {
+			if (!visible.has(layer)) {
+				this._hide(layer);
+			}
+		}
+
+		for (const layer of visible) {
+			map.addLayer(layer);
+		}
+
+		this._visible = visible;
+	}
+
+	_hide(layer: Marker): void {
+		layer.getElement().classList.remove('leaflet-cluster-fade');
+		this._map!.removeLayer(layer); // TODO: null safety
+	}
+
+	_onMoveEnd(): void {
+		this._clusterZoom = this._zoomFor(this._map!._zoom); // TODO: null safety
+		this._refresh();
+	}
+
+	// Starts moving markers out of the clusters they split from (when zooming in) or into the
+	// clusters they merge into (when zooming out); `_onMoveEnd` cleans up after the animation
+	_onZoomAnim(e: ZoomAnimationEvent): void {
+		const
+			map = this._map!, // TODO: null safety
+			zoom = this._zoomFor(e.zoom);
+
+		if (!this.options.animate || !this._topCluster || zoom === this._clusterZoom) { return; }
+
+		const
+			prev = this._visible,
+			next = new Set<Marker>(),
+			zoomingIn = zoom > this._clusterZoom;
+
+		this._collect(this._topCluster, zoom, this._boundsAt(e.center, e.zoom), next);
+		this._clusterZoom = zoom;
+
+		const merging: [layer: Marker, latlng: LatLng][] = [];
+
+		for (const layer of prev) {
+			if (next.has(layer)) { continue; }
+
+			layer.getElement().classList.add('leaflet-cluster-fade');
+
+			const into = zoomingIn ? undefined : this._shownAncestor(layer, next);
+
+			if (into) {
+				merging.push([layer, into.getLatLng()]);
+			}
+		}
+
+		for (const layer of next) {
+			if (prev.has(layer)) { continue; }
+
+			const from = zoomingIn ? this._shownAncestor(layer, prev) : undefined;
+
+			map.addLayer(layer);
+
+			if (from) {
+				const el = layer.getElement();
+
+				// Start at the (old) position of the cluster the layer splits from; the
+				// marker's own 'zoomanim' listener then moves it to its new position
+				layer._setPos(map.latLngToLayerPoint(from.getLatLng()).round());
+
+				// Force a reflow so the browser transitions from the start position
+				(Util.falseFn as any)(el.offsetWidth);
+			}
+		}
+
+		if (merging.length) {
+			// The markers' own 'zoomanim' listeners run after this one and move them to their
+			// own positions, so correct the positions in a one-time listener, which is only
+			// called after them because `fire()` calls listeners added while firing
+			map.on('zoomanim', () => {
+				for (const [layer, latlng] of merging) {
+					layer._setPos(map._latLngToNewLayerPoint(latlng, e.zoom, e.center).round());
+				}
+			}, this, true);
+		}
+
+		for (const layer of next) {
+			prev.add(layer);
+		}
+	}
+
+	// Returns the closest cluster containing the given marker or cluster marker whose own
+	// cluster marker is in the given set
+	_shownAncestor(layer: Marker, shown: Set<Marker>): MarkerCluster | undefined {
+		let cluster = this._parentClusters.get(layer) || this._clustersByMarker.get(layer)?._parent;
+
+		for (; cluster; cluster = cluster._parent) {
+			if (cluster._marker && shown.has(cluster._marker)) {
+				return cluster;
+			}
+		}
+	}
+
+	// Returns the (padded) bounds of the map view for the given center and zoom
+	_boundsAt(center: LatLng, zoom: number): LatLngBounds {
+		const
+			map = this._map!, // TODO: null safety
+			halfSize = map.getSize().divideBy(2),
+			point = map.project(center, zoom);
+
+		return new LatLngBounds(
+			map.unproject(point.subtract(halfSize), zoom),
+			map.unproject(point.add(halfSize), zoom),
+		).pad(0.5);
+	}
+
+}
+
+// Positions for spiderfied markers on a circle around the center, for small clusters
+function circlePoints(count: number, center: Point): Point[] {
+	const
+		circumference = 25 * (2 + count),
+		legLength = Math.max(circumference / (Math.PI * 2), 35),
+		angleStep = Math.PI * 2 / count;
+
+	return Array.from({ length: count }, (_, i) => {
+		const angle = i * angleStep;
+
+		return new Point(
+			center.x + legLength * Math.cos(angle),
+			center.y + legLength * Math.sin(angle),
+		)._round();
+	});
+}
+
+// Positions for spiderfied markers on a spiral around the center, for big clusters
+function spiralPoints(count: number, center: Point): Point[] {
+	const
+		points: Point[] = [],
+		separation = 28,
+		lengthFactor = 5 * Math.PI * 2;
+
+	let
+		legLength = 11,
+		angle = 0;
+
+	// Skip the first position, so the markers do not end up below the cluster icon
+	for (let i = count; i >= 0; i--) {
+		if (i < count) {
+			points[i] = new Point(
+				center.x + legLength * Math.cos(angle),
+				center.y + legLength * Math.sin(angle),
+			)._round();
+		}
+
+		angle += separation / legLength + i * 0.0005;
+		legLength += lengthFactor / angle;
+	}
+
+	return points;
+}
@@ -0,0 +1,28 @@
+import { DomUtil } from '../../dom';
+import { Point } from '../../geom';
+import { Icon } from '../marker';
+import type { MarkerCluster } from './MarkerCluster.js';
+
+/**
+ * The default [`iconCreateFunction`](#markerclustergroup-iconcreatefunction) of
+ * `MarkerClusterGroup`: a 40x40 pixel circle showing the number of markers in the cluster.
+ * The element is given the `'leaflet-cluster-icon'` class and one of
+ * `'leaflet-cluster-small'` (less than 10 markers), `'leaflet-cluster-medium'` (less than
+ * 100 markers) or `'leaflet-cluster-large'` to color it by size.
+ */
+export function defaultClusterIcon(cluster: MarkerCluster): Icon {
+	const
+		count = cluster.getChildCount(),
+		size = count < 10 ? 'small' : count < 100 ? 'medium' : 'large',
+		el = DomUtil.create('div', `leaflet-marker-icon leaflet-cluster-icon leaflet-cluster-${size}`);
+
+	DomUtil.create('span', '', el).textContent = String(count);
+
+	el.setAttribute('aria-label', `Cluster of ${count} markers`);
+	el.style.width = '40px';
+	el.style.height = '40px';
+	el.style.marginLeft = '-20px';
+	el.style.marginTop = '-20px';
+
+	return new Icon(el, new Point(40, 40), new Point(20, 20));
+}
@@ -0,0 +1,4 @@
+export * from './cluster-icon.js';
+export * from './DistanceGrid.js';
+export * from './MarkerCluster.js';
+export * from './MarkerClusterGroup.js';
@@ -0,0 +1,326 @@
+import { LatLng } from '../../geog';
+import { LayerGroup, type Layer } from '..';
+import { CircleMarker, Path, Polygon, Polyline, type PathOptions, type Renderer } from '../vector';
+
+/**
+ * A GeoJSON position: `[longitude, latitude]` or `[longitude, latitude, altitude]`.
+ * Note that the order is the reverse of `LatLng`.
+ */
+export type GeoJSONPosition = number[];
+
+export interface GeoJSONPoint {
+	type: 'Point';
+	coordinates: GeoJSONPosition;
+}
+
+export interface GeoJSONMultiPoint {
+	type: 'MultiPoint';
+	coordinates: GeoJSONPosition[];
+}
+
+export interface GeoJSONLineString {
+	type: 'LineString';
+	coordinates: GeoJSONPosition[];
+}
+
+export interface GeoJSONMultiLineString {
+	type: 'MultiLineString';
+	coordinates: GeoJSONPosition[][];
+}
+
+export interface GeoJSONPolygon {
+	type: 'Polygon';
+	coordinates: GeoJSONPosition[][];
+}
+
+export interface GeoJSONMultiPolygon {
+	type: 'MultiPolygon';
+	coordinates: GeoJSONPosition[][][];
+}
+
+export interface GeoJSONGeometryCollection {
+	type: 'GeometryCollection';
+	geometries: GeoJSONGeometry[];
+}
+
+export type GeoJSONGeometry =
+	| GeoJSONPoint
+	| GeoJSONMultiPoint
+	| GeoJSONLineString
+	| GeoJSONMultiLineString
+	| GeoJSONPolygon
+	| GeoJSONMultiPolygon
+	| GeoJSONGeometryCollection;
+
+export type GeoJSONProperties = Dict<any> | null;
+
+export interface GeoJSONFeature<
+	G extends GeoJSONGeometry | null = GeoJSONGeometry | null,
+	P = GeoJSONProperties,
+> {
+	type: 'Feature';
+	geometry: G;
+	properties: P;
+	id?: string | number;
+}
+
+export interface GeoJSONFeatureCollection<P = GeoJSONProperties> {
+	type: 'FeatureCollection';
+	features: GeoJSONFeature<GeoJSONGeometry | null, P>[];
+}
+
+/**
+ * Any GeoJSON object which can be turned into layers.
+ */
+export type GeoJSONObject<P = GeoJSONProperties> =
+	| GeoJSONGeometry
+	| GeoJSONFeature<GeoJSONGeometry | null, P>
+	| GeoJSONFeatureCollection<P>;
+
+export interface GeoJSONOptions<P = GeoJSONProperties> {
+	/**
+	 * A function defining how GeoJSON points spawn layers. It is called when data is added,
+	 * passing the GeoJSON point feature and its `LatLng`. By default, a `CircleMarker` styled
+	 * with the [`style`](#geojson-style) option is created, because markers need an `Icon`:
+	 *
+	 * ```js
+	 * pointToLayer: (feature, latlng) => new Marker(latlng, icon),
+	 * ```
+	 */
+	pointToLayer: ((feature: GeoJSONFeature<GeoJSONGeometry, P>, latlng: LatLng) => Layer) | undefined;
+	/**
+	 * `Path` options (or a function returning them for a given feature) used to style the
+	 * created lines, polygons and circle markers. Undefined by default, meaning the path
+	 * defaults are not overridden.
+	 */
+	style: Partial<PathOptions> | ((feature: GeoJSONFeature<GeoJSONGeometry, P>) => Partial<PathOptions>) | undefined;
+	/**
+	 * A function that decides whether to include a feature or not. Includes all features
+	 * by default. Note that it is only evaluated when data is added.
+	 */
+	filter: ((feature: GeoJSONFeature<GeoJSONGeometry, P>) => boolean) | undefined;
+	/**
+	 * A function that will be called once for each created feature, after it has been
+	 * created and styled. Useful for attaching events and tooltips to features.
+	 */
+	onEachFeature: ((feature: GeoJSONFeature<GeoJSONGeometry, P>, layer: Layer) => void) | undefined;
+	/**
+	 * A function that will be used for converting GeoJSON coordinates to `LatLng`s.
+	 * [`coordsToLatLng`](#geojson-coordstolatlng) by default.
+	 */
+	coordsToLatLng: (coords: GeoJSONPosition) => LatLng;
+}
+
+// Remembers which feature every layer created from GeoJSON came from, without making
+// layers themselves know anything about GeoJSON
+const featuresByLayer = new WeakMap<Layer, GeoJSONFeature>();
+
+/**
+ * Parses GeoJSON data (a geometry, feature, feature collection, or an array of those) into
+ * layers and returns them in a new `LayerGroup`. Vector layers are drawn with the given
+ * renderer, which is required because this fork never falls back to a default renderer
+ * behind your back.
+ *
+ * ```js
+ * const renderer = new SVG();
+ *
+ * map.addLayer(
+ *     geoJSON(data, renderer, {
+ *         style: feature => ({color: feature.properties.color}),
+ *     }),
+ * );
+ * ```
+ */
+export function geoJSON<P = GeoJSONProperties>(
+	geojson: GeoJSONObject<P> | readonly GeoJSONObject<P>[],
+	renderer: Renderer,
+	options?: Partial<GeoJSONOptions<P>>,
+): LayerGroup {
+	return addGeoJSON(new LayerGroup([]), geojson, renderer, options);
+}
+
+/**
+ * Parses GeoJSON data into layers and adds them to an existing `LayerGroup` (for example
+ * one created by [`geoJSON`](#geojson-geojson)).
+ */
+export function addGeoJSON<P = GeoJSONProperties>(
+	group: LayerGroup,
+	geojson: GeoJSONObject<P> | readonly GeoJSONObject<P>[],
+	renderer: Renderer,
+	options?: Partial<GeoJSONOptions<P>>,
+): LayerGroup {
+	const features = Array.isArray(geojson)
+		? geojson as readonly GeoJSONObject<P>[]
+		: (geojson as GeoJSONObject<P>).type === 'FeatureCollection'
+			? (geojson as GeoJSONFeatureCollection<P>).features
+			: undefined;
+
+	if (features) {
+		for (const feature of features) {
+			// Only add this if geometry or geometries are set and not null
+			if ('geometries' in feature || 'features' in feature || 'coordinates' in feature || ('geometry' in feature && feature.geometry)) {
+				addGeoJSON(group, feature, renderer, options);
+			}
+		}
+		return group;
+	}
+
+	const feature = asFeature(geojson as GeoJSONObject<P>) as GeoJSONFeature<GeoJSONGeometry, P>;
+
+	if (options?.filter && !options.filter(feature)) { return group; }
+
+	const layer = geometryToLayer(feature, renderer, options);
+
+	if (!layer) { return group; }
+
+	featuresByLayer.set(layer, feature as GeoJSONFeature);
+	options?.onEachFeature?.(feature, layer);
+
+	return group.addLayer(layer);
+}
+
+/**
+ * Returns the GeoJSON feature that the given layer was created from by
+ * [`geoJSON`](#geojson-geojson)/[`addGeoJSON`](#geojson-addgeojson), if any.
+ */
+export function getGeoJSONFeature(layer: Layer): GeoJSONFeature | undefined {
+	return featuresByLayer.get(layer);
+}
+
+/**
+ * Changes the styles of the vector layers in a group created from GeoJSON, e.g. to reset
+ * the style after hover highlighting. Layers which were not created from GeoJSON are left
+ * untouched.
+ */
+export function setGeoJSONStyle<P = GeoJSONProperties>(
+	group: LayerGroup,
+	style: GeoJSONOptions<P>['style'],
+): LayerGroup {
+	return group.eachLayer(layer => {
+		const feature = featuresByLayer.get(layer) as GeoJSONFeature<GeoJSONGeometry, P> | undefined;
+
+		if (feature && (layer instanceof Path || layer instanceof LayerGroup)) {
+			layer.setStyle(resolveStyle(style, feature));
+		}
+	});
+}
+
+/**
+ * Creates a `Layer` from a given GeoJSON geometry or feature. Uses the custom
+ * [`pointToLayer`](#geojson-pointtolayer) and/or [`coordsToLatLng`](#geojson-coordstolatlng)
+ * functions if provided. Returns `undefined` for features without a geometry.
+ */
+export function geometryToLayer<P = GeoJSONProperties>(
+	geojson: GeoJSONGeometry | GeoJSONFeature<GeoJSONGeometry | null, P>,
+	renderer: Renderer,
+	options?: Partial<GeoJSONOptions<P>>,
+): Layer | undefined {
+	const geometry = geojson.type === 'Feature' ? geojson.geometry : geojson;
+
+	if (!geometry) { return; }
+
+	const
+		feature = asFeature(geojson) as GeoJSONFeature<GeoJSONGeometry, P>,
+		toLatLng = options?.coordsToLatLng || coordsToLatLng,
+		pathOptions: Partial<PathOptions> = {
+			...resolveStyle(options?.style, feature),
+			renderer,
+		},
+		pointToLayer = (latlng: LatLng): Layer => options?.pointToLayer
+			? options.pointToLayer(feature, latlng)
+			: new CircleMarker(latlng, pathOptions);
+
+	switch (geometry.type) {
+	case 'Point':
+		return pointToLayer(toLatLng(geometry.coordinates));
+
+	case 'MultiPoint':
+		return new LayerGroup(geometry.coordinates.map(coords => pointToLayer(toLatLng(coords))));
+
+	case 'LineString':
+		return new Polyline(coordsToLatLngs(geometry.coordinates, toLatLng), pathOptions);
+
+	case 'MultiLineString':
+		return new Polyline(
+			geometry.coordinates.map(line => coordsToLatLngs(line, toLatLng)),
+			pathOptions,
+		);
+
+	case 'Polygon':
+		return new Polygon(
+			geometry.coordinates.map(ring => coordsToLatLngs(ring, toLatLng)),
+			pathOptions,
+		);
+
+	case 'MultiPolygon':
+		return new Polygon(
+			geometry.coordinates.map(poly => poly.map(ring => coordsToLatLngs(ring, toLatLng))),
+			pathOptions,
+		);
+
+	case 'GeometryCollection': {
+		const layers: Layer[] = [];
+
+		for (const child of geometry.geometries) {
+			const childLayer = geometryToLayer<P>({
+				type: 'Feature',
+				geometry: child,
+				properties: feature.properties,
+			}, renderer, options);
+
+			if (childLayer) {
+				layers.push(childLayer);
+			}
+		}
+
+		return new LayerGroup(layers);
+	}
+
+	default:
+		throw new Error('Invalid GeoJSON object.');
+	}
+}
+
+/**
+ * Creates a `LatLng` object from an array of 2 numbers (longitude, latitude) or 3 numbers
+ * (longitude, latitude, altitude) used in GeoJSON for points.
+ */
+export function coordsToLatLng(coords: GeoJSONPosition): LatLng {
+	return new LatLng(coords[1], coords[0], coords[2]);
+}
+
+/**
+ * Creates an array of `LatLng`s from an array of GeoJSON positions. Can use a custom
+ * [`coordsToLatLng`](#geojson-coordstolatlng) function.
+ */
+export function coordsToLatLngs(
+	coords: readonly GeoJSONPosition[],
+	toLatLng: (coords: GeoJSONPosition) => LatLng = coordsToLatLng,
+): LatLng[] {
+	return coords.map(position => toLatLng(position));
+}
+
+/**
+ * Normalizes GeoJSON geometries into GeoJSON features (features and feature collections
+ * are returned as-is).
+ */
+export function asFeature<P = GeoJSONProperties>(
+	geojson: GeoJSONObject<P>,
+): GeoJSONFeature<GeoJSONGeometry | null, P> | GeoJSONFeatureCollection<P> {
+	if (geojson.type === 'Feature' || geojson.type === 'FeatureCollection') {
+		return geojson;
+	}
+
+	return {
+		type: 'Feature',
+		properties: {} as P,
+		geometry: geojson,
+	};
+}
+
+function resolveStyle<P>(
+	style: GeoJSONOptions<P>['style'],
+	feature: GeoJSONFeature<GeoJSONGeometry, P>,
+): Partial<PathOptions> {
+	return (typeof style === 'function' ? style(feature) : style) || {};
+}
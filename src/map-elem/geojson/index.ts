@@ -0,0 +1,2 @@
+export * from './GeoJSON.js';
+export * from './to-geojson.js';
@@ -0,0 +1,222 @@
+import { Util } from '../../core';
+import type { LatLng } from '../../geog';
+import { GeogUtil } from '../../geog/util';
+import { LayerGroup, type Layer } from '..';
+import { Marker } from '../marker';
+import { Circle, CircleMarker, Polygon, Polyline } from '../vector';
+import {
+	asFeature,
+	getGeoJSONFeature,
+	type GeoJSONFeature,
+	type GeoJSONFeatureCollection,
+	type GeoJSONGeometry,
+	type GeoJSONPoint,
+	type GeoJSONPosition,
+} from './GeoJSON.js';
+
+// This file contains the reverse of GeoJSON.ts: serializing layers back into GeoJSON. Every
+// function takes a `precision` (number of decimal places, 6 by default) which is passed to
+// `Util.formatNum()`, so `false` skips rounding entirely.
+
+/**
+ * Reverse of [`coordsToLatLng`](#geojson-coordstolatlng). The altitude is only included
+ * when `latlng.alt` is set.
+ */
+export function latLngToCoords(latlng: LatLng, precision?: number | false): GeoJSONPosition {
+	const coords = [
+		Util.formatNum(latlng.lng, precision),
+		Util.formatNum(latlng.lat, precision),
+	];
+
+	if (typeof latlng.alt === 'number') {
+		coords.push(Util.formatNum(latlng.alt, precision));
+	}
+
+	return coords;
+}
+
+/**
+ * Reverse of [`coordsToLatLngs`](#geojson-coordstolatlngs) for (possibly nested) arrays.
+ * `levelsDeep` specifies the nesting level (0 is for an array of points, 1 for an array
+ * of arrays of points, etc.). `close` determines whether the first point should be
+ * appended to the end of each innermost array to close the ring, as GeoJSON requires for
+ * polygons.
+ */
+export function latLngsToCoords(latlngs: readonly LatLng[], levelsDeep: 0, close: boolean, precision?: number | false): GeoJSONPosition[];
+export function latLngsToCoords(latlngs: readonly LatLng[][], levelsDeep: 1, close: boolean, precision?: number | false): GeoJSONPosition[][];
+export function latLngsToCoords(latlngs: readonly LatLng[][][], levelsDeep: 2, close: boolean, precision?: number | false): GeoJSONPosition[][][];
+export function latLngsToCoords(
+	latlngs: readonly LatLng[] | readonly LatLng[][] | readonly LatLng[][][],
+	levelsDeep: number,
+	close: boolean,
+	precision?: number | false,
+): GeoJSONPosition[] | GeoJSONPosition[][] | GeoJSONPosition[][][];
+export function latLngsToCoords(
+	latlngs: readonly LatLng[] | readonly LatLng[][] | readonly LatLng[][][],
+	levelsDeep: number,
+	close: boolean,
+	precision?: number | false,
+): GeoJSONPosition[] | GeoJSONPosition[][] | GeoJSONPosition[][][] {
+	if (!levelsDeep) {
+		const coords = (latlngs as readonly LatLng[]).map(latlng => latLngToCoords(latlng, precision));
+
+		if (close && coords.length > 0) {
+			coords.push(coords[0].slice());
+		}
+
+		return coords;
+	}
+
+	// Check for flat arrays so that unbalanced arrays (e.g. a multi-polygon where only some
+	// polygons have holes) are converted correctly
+	return (latlngs as readonly LatLng[][][]).map(nested => latLngsToCoords(
+		nested,
+		GeogUtil.isFlat(nested as LatLng[] | LatLng[][]) ? 0 : levelsDeep - 1,
+		close,
+		precision,
+	)) as GeoJSONPosition[][] | GeoJSONPosition[][][];
+}
+
+/**
+ * Returns a GeoJSON feature for the given point layer. A `Circle` is exported as a `Point`
+ * with its radius in meters stored in the `radius` property, since GeoJSON has no circles.
+ */
+export function pointToGeoJSON(
+	layer: Marker | CircleMarker,
+	precision?: number | false,
+): GeoJSONFeature<GeoJSONPoint> {
+	const feature = featureWithGeometry(layer, {
+		type: 'Point',
+		coordinates: latLngToCoords(layer.getLatLng(), precision),
+	});
+
+	if (layer instanceof Circle) {
+		feature.properties = { ...feature.properties, radius: layer.getRadius() };
+	}
+
+	return feature;
+}
+
+/**
+ * Returns a `LineString` feature for the given polyline, or a `MultiLineString` feature
+ * if it has multiple parts.
+ */
+export function polylineToGeoJSON(
+	line: Polyline,
+	precision?: number | false,
+): GeoJSONFeature<GeoJSONGeometry> {
+	const latlngs = line.getLatLngs();
+
+	return featureWithGeometry(line, GeogUtil.isFlat(latlngs)
+		? { type: 'LineString', coordinates: latLngsToCoords(latlngs, 0, false, precision) }
+		: { type: 'MultiLineString', coordinates: latLngsToCoords(latlngs, 1, false, precision) },
+	);
+}
+
+/**
+ * Returns a `Polygon` feature (including holes) for the given polygon, or a `MultiPolygon`
+ * feature if it consists of multiple polygons. Rings are closed as GeoJSON requires.
+ */
+export function polygonToGeoJSON(
+	poly: Polygon,
+	precision?: number | false,
+): GeoJSONFeature<GeoJSONGeometry> {
+	// Polygons always nest their rings at least one level deep
+	const latlngs = poly.getLatLngs() as LatLng[][] | LatLng[][][];
+
+	return featureWithGeometry(poly, latlngs.length > 0 && !GeogUtil.isFlat(latlngs[0])
+		? { type: 'MultiPolygon', coordinates: latLngsToCoords(latlngs as LatLng[][][], 2, true, precision) }
+		: { type: 'Polygon', coordinates: latLngsToCoords(latlngs as LatLng[][], 1, true, precision) },
+	);
+}
+
+/**
+ * Returns a GeoJSON representation of the layer group: a `MultiPoint` or
+ * `GeometryCollection` feature if the group was created from one, otherwise a
+ * `FeatureCollection` (nested collections are flattened).
+ */
+export function layerGroupToGeoJSON(
+	group: LayerGroup,
+	precision?: number | false,
+): GeoJSONFeature<GeoJSONGeometry> | GeoJSONFeatureCollection {
+	const type = getGeoJSONFeature(group)?.geometry?.type;
+
+	if (type === 'MultiPoint') {
+		const coordinates: GeoJSONPosition[] = [];
+
+		group.eachLayer(layer => {
+			if (layer instanceof Marker || layer instanceof CircleMarker) {
+				coordinates.push(latLngToCoords(layer.getLatLng(), precision));
+			}
+		});
+
+		return featureWithGeometry(group, { type: 'MultiPoint', coordinates });
+	}
+
+	if (type === 'GeometryCollection') {
+		const geometries: GeoJSONGeometry[] = [];
+
+		group.eachLayer(layer => {
+			const json = toGeoJSON(layer, precision);
+
+			if (json?.type === 'Feature') {
+				geometries.push(json.geometry);
+			}
+		});
+
+		return featureWithGeometry(group, { type: 'GeometryCollection', geometries });
+	}
+
+	const features: GeoJSONFeature<GeoJSONGeometry>[] = [];
+
+	group.eachLayer(layer => {
+		const json = toGeoJSON(layer, precision);
+
+		if (json?.type === 'FeatureCollection') {
+			features.push(...json.features as GeoJSONFeature<GeoJSONGeometry>[]);
+		} else if (json) {
+			features.push(json);
+		}
+	});
+
+	return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Returns a GeoJSON representation of any supported layer (`Marker`, `CircleMarker`,
+ * `Circle`, `Polyline`, `Polygon` or `LayerGroup`), or `undefined` for other layers.
+ * Properties (and the ID) of the feature the layer was created from are preserved.
+ *
+ * ```js
+ * const json = toGeoJSON(polygon, 8);
+ * ```
+ */
+export function toGeoJSON(
+	layer: Layer,
+	precision?: number | false,
+): GeoJSONFeature<GeoJSONGeometry> | GeoJSONFeatureCollection | undefined {
+	if (layer instanceof Polygon) {
+		return polygonToGeoJSON(layer, precision);
+	}
+	if (layer instanceof Polyline) {
+		return polylineToGeoJSON(layer, precision);
+	}
+	if (layer instanceof Marker || layer instanceof CircleMarker) {
+		return pointToGeoJSON(layer, precision);
+	}
+	if (layer instanceof LayerGroup) {
+		return layerGroupToGeoJSON(layer, precision);
+	}
+}
+
+// Builds a feature with the given geometry, keeping the properties of the feature the
+// layer was originally created from (if any)
+function featureWithGeometry<G extends GeoJSONGeometry>(layer: Layer, geometry: G): GeoJSONFeature<G> {
+	const original = getGeoJSONFeature(layer);
+
+	if (original) {
+		return { ...original, geometry };
+	}
+
+	return asFeature(geometry) as GeoJSONFeature<G>;
+}
@@ -1,9 +1,9 @@
 export * from './BlanketOverlay.js';
 export * from './DivOverlay.js';
-// export { GeoJSON, asFeature, coordsToLatLng, coordsToLatLngs, geometryToLayer, getFeature, latLngToCoords, latLngsToCoords } from './GeoJSON.js';
 export * from './ImageOverlay.js';
 export * from './Layer.js';
 export * from './LayerGroup.js';
+export * from './Popup.js';
 export * from './SVGOverlay.js';
 export * from './Tooltip.js';
 export * from './VideoOverlay.js';
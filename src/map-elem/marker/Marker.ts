@@ -224,6 +224,19 @@ export class Marker extends Layer {
 		this._updateZIndex(0);
 	}
 
+	// Offset from the marker position to the top center of the icon, where popups point to
+	_getPopupAnchor(): Point {
+		const { size, anchor } = this._iconInfo;
+		return new Point(Math.round(size.x / 2 - anchor.x), -anchor.y);
+	}
+
+	// Offset from the marker position to the middle of the icon's right edge, where
+	// tooltips point to
+	_getTooltipAnchor(): Point {
+		const { size, anchor } = this._iconInfo;
+		return new Point(size.x - anchor.x, Math.round(size.y / 2 - anchor.y));
+	}
+
 	_panOnFocus(): void {
 		const
 			map = this._map,
@@ -4,6 +4,7 @@ import { DomUtil } from '../../dom';
 import { LatLng, LatLngBounds } from '../../geog';
 import { Bounds, Point } from '../../geom';
 import type { Map } from '../../map';
+import type { TileFilter } from './tile-filters.js';
 
 export interface GridLayerOptions extends LayerOptions {
 	/**
@@ -76,6 +77,20 @@ export interface GridLayerOptions extends LayerOptions {
 	 * them. 2 by default.
 	 */
 	keepBuffer: 2;
+	/**
+	 * Filters applied in order to the pixels of every tile once it has loaded, e.g.
+	 * `[TileFilters.grayscale(), TileFilters.brightness(0.6)]` for a dimmed basemap in
+	 * night mode. Image tiles are replaced by canvases. Tiles whose pixels cannot be read
+	 * are left as they are, so tiles from other origins must be loaded with the
+	 * `crossOrigin` option of `TileLayer`. None by default.
+	 */
+	tileFilter: TileFilter | TileFilter[] | undefined;
+	/**
+	 * How the layer is blended with the layers below it, as a CSS
+	 * [`mix-blend-mode`](https://developer.mozilla.org/en-US/docs/Web/CSS/mix-blend-mode),
+	 * e.g. 'multiply' for a hillshade layer. Undefined (i.e. 'normal') by default.
+	 */
+	blendMode: string | undefined;
 }
 
 /** @deprecated TODO: figure out the types for the various 'done' callback parameters throughout codebase */
@@ -85,11 +100,38 @@ export interface TileModel {
 	el: HTMLElement;
 	coords: Point;
 	current: boolean;
+	requested: number; // UNIX millis timestamp
 	loaded: number; // UNIX millis timestamp, 0 if not loaded yet
 	active: boolean;
 	retain: boolean;
 }
 
+/** Counts of the tiles of a grid layer, see `GridLayer.getTileStats()`. */
+export interface TileStats {
+	/** Number of tiles which are loading. */
+	pending: number;
+	/** Number of tiles which loaded. */
+	loaded: number;
+	/** Number of tiles which failed to load. */
+	errored: number;
+	/** Number of tiles which were removed before they finished loading. */
+	aborted: number;
+	/** Mean time the tiles took to load or fail, in milliseconds. 0 if none did yet. */
+	meanLatency: number;
+}
+
+export interface TileProgressEvent {
+	/** Number of tiles which loaded, failed or were aborted since the layer started loading. */
+	done: number;
+	/** Number of tiles done plus the number of tiles still loading. */
+	total: number;
+	/** `done / total`, from 0 to 1. */
+	fraction: number;
+}
+
+// The grid layers of every map which are loading tiles
+const loadingLayers = new WeakMap<Map, Set<GridLayer>>();
+
 export interface LevelModel {
 	el: HTMLElement;
 	origin: Point;
@@ -164,6 +206,10 @@ export abstract class GridLayer extends Layer {
 	_onCreateLevel: (level: LevelModel) => void = Util.falseFn;
 	_noPrune = false;
 	_loading = false;
+	// Tile counts since the layer was added, by zoom level
+	_stats: Dict<TileStats> = {};
+	// Number of tiles done since the layer started loading
+	_done = 0;
 	_onMove: (() => void) | undefined;
 	_fadeFrame = 0;
 	_globalTileRange: Bounds | undefined;
@@ -189,7 +235,9 @@ export abstract class GridLayer extends Layer {
 			noWrap: false,
 			pane: 'tile',
 			className: '',
-			keepBuffer: 2
+			keepBuffer: 2,
+			tileFilter: undefined,
+			blendMode: undefined,
 		});
 	}
 
@@ -203,12 +251,14 @@ export abstract class GridLayer extends Layer {
 		this._initContainer();
 		this._levels = {};
 		this._tiles = {};
+		this._stats = {};
 		this._resetView(); // implicit _update() call
 
 		return this;
 	}
 
 	onRemove(map: Map): void {
+		this._setLoading(false);
 		this._removeAllTiles();
 		this._container!.remove(); // TODO: null safety
 		this._container = undefined;
@@ -252,11 +302,66 @@ export abstract class GridLayer extends Layer {
 		return this;
 	}
 
+	// Changes the [tile filters](#gridlayer-tilefilter) of the grid layer, and reloads the
+	// tiles since they are only filtered once, when they load.
+	setTileFilter(tileFilter: TileFilter | TileFilter[] | undefined): this {
+		this.options.tileFilter = tileFilter;
+		return this.redraw();
+	}
+
+	// Changes the [blend mode](#gridlayer-blendmode) of the grid layer.
+	setBlendMode(blendMode: string | undefined): this {
+		this.options.blendMode = blendMode;
+		this._updateBlendMode();
+		return this;
+	}
+
 	// Returns `true` if any tile in the grid layer has not finished loading.
 	isLoading(): boolean {
 		return this._loading;
 	}
 
+	// Returns the counts of the tiles of the given zoom level, or of all zoom levels, since
+	// the layer was added to the map.
+	getTileStats(zoom?: number): TileStats {
+		const
+			levels = zoom === undefined ? Object.values(this._stats) : [this._stats[zoom]],
+			total: TileStats = { pending: 0, loaded: 0, errored: 0, aborted: 0, meanLatency: 0 };
+
+		let latency = 0;
+
+		for (const stats of levels) {
+			if (!stats) { continue; }
+
+			total.pending += stats.pending;
+			total.loaded += stats.loaded;
+			total.errored += stats.errored;
+			total.aborted += stats.aborted;
+			latency += stats.meanLatency * (stats.loaded + stats.errored);
+		}
+
+		total.meanLatency = latency / (total.loaded + total.errored) || 0;
+
+		return total;
+	}
+
+	// Returns `true` if any grid layer of the map has tiles which have not finished loading.
+	static isMapLoading(map: Map): boolean {
+		return !!loadingLayers.get(map)?.size;
+	}
+
+	// Returns a promise which resolves once no grid layer of the map is loading tiles, e.g.
+	// to take a screenshot of the map once it is complete.
+	static whenMapIdle(map: Map): Promise<void> {
+		return new Promise(resolve => {
+			if (GridLayer.isMapLoading(map)) {
+				map.on('tilesidle', () => resolve(), undefined, true);
+			} else {
+				resolve();
+			}
+		});
+	}
+
 	// Causes the layer to clear all the tiles and request them again.
 	redraw(): this {
 		if (this._map) {
@@ -305,6 +410,12 @@ export abstract class GridLayer extends Layer {
 		}
 	}
 
+	_updateBlendMode(): void {
+		if (this._container) {
+			this._container.style.mixBlendMode = this.options.blendMode || '';
+		}
+	}
+
 	_setAutoZIndex(compare: (a: number, b: number) => number): void {
 		// go through all other layers of the same pane, set zIndex to max + 1 (front) or min - 1 (back)
 		const layers = this.getPane()!.children; // TODO: null safety
@@ -368,6 +479,7 @@ export abstract class GridLayer extends Layer {
 
 		this._container = DomUtil.create('div', `leaflet-layer ${this.options.className || ''}`);
 		this._updateZIndex();
+		this._updateBlendMode();
 
 		if (this.options.opacity < 1) {
 			this._updateOpacity();
@@ -481,35 +593,47 @@ export abstract class GridLayer extends Layer {
 		this._tileZoom = undefined;
 	}
 
+	// Returns true if the tile is entirely covered by retained ancestors (usually its parent
+	// tile, but there may be several with pyramids where zoom levels aren't twice apart)
 	_retainParent(x: number, y: number, z: number, minZoom: number): boolean {
-		const x2 = Math.floor(x / 2),
-		    y2 = Math.floor(y / 2),
-		    z2 = z - 1,
-		    coords2 = new Point(+x2, +y2);
-		coords2.z = +z2;
-
 		const
-			key = this._tileCoordsToKey(coords2),
-		    tile = this._tiles[key];
+			z2 = z - 1,
+		    range = this._overlappingTiles(x, y, z, z2);
 
-		if (tile && tile.active) {
-			tile.retain = true;
-			return true;
+		let covered = true;
 
-		} else if (tile && tile.loaded) {
-			tile.retain = true;
-		}
+		for (let x2 = range.min.x; x2 <= range.max.x; x2++) {
+			for (let y2 = range.min.y; y2 <= range.max.y; y2++) {
+
+				const coords2 = new Point(x2, y2);
+				coords2.z = z2;
+
+				const
+					key = this._tileCoordsToKey(coords2),
+				    tile = this._tiles[key];
+
+				if (tile && tile.active) {
+					tile.retain = true;
+					continue;
+
+				} else if (tile && tile.loaded) {
+					tile.retain = true;
+				}
 
-		if (z2 > minZoom) {
-			return this._retainParent(x2, y2, z2, minZoom);
+				if (!(z2 > minZoom && this._retainParent(x2, y2, z2, minZoom))) {
+					covered = false;
+				}
+			}
 		}
 
-		return false;
+		return covered;
 	}
 
 	_retainChildren(x: number, y: number, z: number, maxZoom: number): void {
-		for (let i = 2 * x; i < 2 * x + 2; i++) {
-			for (let j = 2 * y; j < 2 * y + 2; j++) {
+		const range = this._overlappingTiles(x, y, z, z + 1);
+
+		for (let i = range.min.x; i <= range.max.x; i++) {
+			for (let j = range.min.y; j <= range.max.y; j++) {
 
 				const coords = new Point(i, j);
 				coords.z = z + 1;
@@ -532,6 +656,19 @@ export abstract class GridLayer extends Layer {
 		}
 	}
 
+	// Returns the range of tiles at zoom `toZoom` which overlap the tile at `x`, `y`, `z`
+	_overlappingTiles(x: number, y: number, z: number, toZoom: number): Bounds {
+		const
+			scale = this._map!.getZoomScale(toZoom, z), // TODO: null safety
+			// Tolerates rounding errors, so that tiles which only touch don't count
+			eps = 1e-9;
+
+		return new Bounds(
+			new Point(Math.floor(x * scale + eps), Math.floor(y * scale + eps)),
+			new Point(Math.ceil((x + 1) * scale - eps) - 1, Math.ceil((y + 1) * scale - eps) - 1),
+		);
+	}
+
 	_resetView(e?: any): void {
 		const animating = e && (e.pinch || e.flyTo);
 		// TODO: null safety
@@ -710,7 +847,7 @@ export abstract class GridLayer extends Layer {
 		if (queue.length !== 0) {
 			// if it's the first batch of tiles to load
 			if (!this._loading) {
-				this._loading = true;
+				this._setLoading(true);
 				// @event loading: Event
 				// Fired when the grid layer starts loading tiles.
 				this.fire('loading');
@@ -796,6 +933,10 @@ export abstract class GridLayer extends Layer {
 
 		delete this._tiles[key];
 
+		if (!tile.loaded) {
+			this._tileAborted(tile);
+		}
+
 		// @event tileunload: TileEvent
 		// Fired when a tile is removed (e.g. when a tile goes off the screen).
 		this.fire('tileunload', {
@@ -836,6 +977,7 @@ export abstract class GridLayer extends Layer {
 			el: tile,
 			coords,
 			current: true,
+			requested: Date.now(),
 			loaded: 0,
 			active: false,
 			retain: false,
@@ -843,6 +985,8 @@ export abstract class GridLayer extends Layer {
 
 		container.appendChild(tile);
 
+		this._levelStats(coords.z!).pending++; // TODO: null safety
+
 		// @event tileloadstart: TileEvent
 		// Fired when a tile is requested and starts loading.
 		this.fire('tileloadstart', {
@@ -852,21 +996,38 @@ export abstract class GridLayer extends Layer {
 	}
 
 	_tileReady(coords: Point, err: unknown /* TODO */, _tile?: HTMLElement): void {
+		const key = this._tileCoordsToKey(coords);
+		const tile = this._tiles[key];
+
+		// Tiles may be ready twice, e.g. once failed and once showing an error tile
+		const latency = tile && !tile.loaded ? Date.now() - tile.requested : undefined;
+
+		if (latency !== undefined) {
+			const stats = this._levelStats(coords.z!); // TODO: null safety
+
+			stats.pending--;
+			stats[err ? 'errored' : 'loaded']++;
+			stats.meanLatency += (latency - stats.meanLatency) / (stats.loaded + stats.errored);
+		}
+
 		if (err) {
 			// @event tileerror: TileErrorEvent
-			// Fired when there is an error loading a tile.
+			// Fired when there is an error loading a tile, with the `latency` of the tile
+			// request in milliseconds.
 			this.fire('tileerror', {
 				error: err,
 				tile: _tile,
-				coords
+				coords,
+				latency,
 			});
 		}
 
-		const key = this._tileCoordsToKey(coords);
-		const tile = this._tiles[key];
-
 		if (!tile) { return; }
 
+		if (!err && this.options.tileFilter) {
+			this._filterTile(tile);
+		}
+
 		tile.loaded = Date.now();
 
 		// TODO: null safety
@@ -883,15 +1044,20 @@ export abstract class GridLayer extends Layer {
 			tile.el.classList.add('leaflet-tile-loaded');
 
 			// @event tileload: TileEvent
-			// Fired when a tile loads.
+			// Fired when a tile loads, with the `latency` of the tile request in milliseconds.
 			this.fire('tileload', {
 				tile: tile.el,
-				coords
+				coords,
+				latency,
 			});
 		}
 
+		if (latency !== undefined) {
+			this._tileDone();
+		}
+
 		if (this._noTilesToLoad()) {
-			this._loading = false;
+			this._setLoading(false);
 			// @event load: Event
 			// Fired when the grid layer loaded all visible tiles.
 			this.fire('load');
@@ -906,6 +1072,127 @@ export abstract class GridLayer extends Layer {
 		}
 	}
 
+	_levelStats(zoom: number): TileStats {
+		return this._stats[zoom] ||= { pending: 0, loaded: 0, errored: 0, aborted: 0, meanLatency: 0 };
+	}
+
+	// Counts a tile which loaded, failed or was aborted towards the loading progress
+	_tileDone(): void {
+		if (!this._loading) { return; }
+
+		this._done++;
+
+		const total = this._done + this.getTileStats().pending;
+
+		// @event progress: TileProgressEvent
+		// Fired whenever a tile loaded, failed or was aborted while the layer is loading.
+		this.fire('progress', {
+			done: this._done,
+			total,
+			fraction: this._done / total,
+		});
+	}
+
+	// Counts a tile which was removed from `_tiles` before it finished loading, and finishes
+	// loading if it was the last tile loading
+	_tileAborted(tile: TileModel): void {
+		const stats = this._levelStats(tile.coords.z!); // TODO: null safety
+
+		stats.pending--;
+		stats.aborted++;
+
+		this._tileDone();
+
+		// Tiles are aborted when the view changes, so wait for the tiles of the new view to
+		// be added before deciding whether the layer is done loading
+		Promise.resolve().then(() => {
+			if (this._loading && this._noTilesToLoad()) {
+				this._setLoading(false);
+				this.fire('load');
+			}
+		});
+	}
+
+	// Keeps track of whether the layer and the other grid layers of the map are loading
+	_setLoading(loading: boolean): void {
+		if (loading === this._loading) { return; }
+
+		this._loading = loading;
+		this._done = 0;
+
+		const map = this._map;
+
+		if (!map) { return; }
+
+		let layers = loadingLayers.get(map);
+
+		if (!layers) {
+			loadingLayers.set(map, layers = new Set());
+		}
+
+		const wasLoading = layers.size > 0;
+
+		if (loading) {
+			layers.add(this);
+		} else {
+			layers.delete(this);
+		}
+
+		if (!wasLoading && layers.size) {
+			// @event tilesloading: Event
+			// Fired on the map when one of its grid layers starts loading tiles while none were.
+			map.fire('tilesloading');
+		} else if (wasLoading && !layers.size) {
+			// @event tilesidle: Event
+			// Fired on the map when none of its grid layers are loading tiles anymore.
+			map.fire('tilesidle');
+		}
+	}
+
+	// Applies the tile filters to the pixels of the tile, drawing image tiles to a canvas
+	// which takes their place
+	_filterTile(tile: TileModel): void {
+		const el = tile.el;
+
+		let canvas: HTMLCanvasElement;
+
+		if (el instanceof HTMLCanvasElement) {
+			canvas = el;
+		} else if (el instanceof HTMLImageElement && el.naturalWidth) {
+			canvas = document.createElement('canvas');
+			canvas.width = el.naturalWidth;
+			canvas.height = el.naturalHeight;
+			canvas.getContext('2d')!.drawImage(el, 0, 0);
+		} else {
+			return;
+		}
+
+		const ctx = canvas.getContext('2d')!;
+
+		let data: ImageData;
+
+		try {
+			data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+		} catch {
+			// The canvas is tainted by an image from another origin
+			return;
+		}
+
+		for (const filter of ([] as TileFilter[]).concat(this.options.tileFilter || [])) {
+			filter(data);
+		}
+
+		ctx.putImageData(data, 0, 0);
+
+		if (canvas !== el) {
+			canvas.className = el.className;
+			canvas.style.cssText = el.style.cssText;
+			DomUtil.setPosition(canvas, DomUtil.getPosition(el));
+			el.replaceWith(canvas);
+			tile.el = canvas;
+		}
+	}
+
 	_getTilePos(coords: Point): Point {
 		return coords.scaleBy(this.getTileSize()).subtract(this._level.origin);
 	}
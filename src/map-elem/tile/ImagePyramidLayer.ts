@@ -0,0 +1,145 @@
+import { Util } from '../../core';
+import { LatLngBounds } from '../../geog';
+import { Point } from '../../geom';
+import type { FitBoundsOptions, Map } from '../../map';
+import type { DoneFn } from './GridLayer.js';
+import { TileLayer, type TileLayerOptions } from './TileLayer.js';
+
+// Where a tile image goes relative to its place in the grid, for the tiles at the right and
+// bottom edges of the image (which are smaller) and the tiles with overlapping borders
+interface TileLayout {
+	size: Point;
+	offset: Point;
+}
+
+/**
+ * Base class for layers showing a single huge image (e.g. a scan) split into a pyramid of
+ * tiles, such as `TileLayerIIIF` and `TileLayerDZI`. Meant for maps with `CRS.Simple`.
+ *
+ * The native zoom levels come from the size of the image: the image is shown at its full
+ * resolution at `maxNativeZoom`, which is the lowest zoom level at which the image is no
+ * larger than one tile at zoom 0. Tiles at the right and bottom edges of the image are
+ * shown at their real size, so the image is never stretched.
+ *
+ * ```js
+ * TileLayerIIIF.load('https://example.com/iiif/network-map/info.json').then(layer => {
+ *     map.addLayer(layer);
+ *     layer.fitMap(map);
+ * });
+ * ```
+ */
+export abstract class ImagePyramidLayer extends TileLayer {
+
+	// Width of the borders which the tile images share with their neighbours, in pixels
+	_overlap = 0;
+	_layouts = new WeakMap<HTMLElement, TileLayout>();
+
+	constructor(
+		url: string,
+		public _width: number,
+		public _height: number,
+		options?: Partial<TileLayerOptions>,
+	) {
+		super(url, options);
+
+		const tileSize = this.getTileSize();
+
+		this.options.maxNativeZoom = Math.max(0, Math.ceil(Math.log2(Math.max(
+			_width / tileSize.x,
+			_height / tileSize.y,
+		))));
+		this.options.minNativeZoom = 0;
+		this.options.noWrap = true;
+	}
+
+	// Returns the size of the image at its full resolution, in pixels.
+	getImageSize(): Point {
+		return new Point(this._width, this._height);
+	}
+
+	// Returns the geographical bounds of the image on the given map.
+	getImageBounds(map: Map): LatLngBounds {
+		const zoom = this.options.maxNativeZoom!;
+
+		return new LatLngBounds(
+			map.unproject(new Point(0, this._height), zoom),
+			map.unproject(new Point(this._width, 0), zoom),
+		);
+	}
+
+	// Restricts the view of the map to the image with `setMaxBounds`, and fits the image in it.
+	fitMap(map: Map, options?: FitBoundsOptions): this {
+		const bounds = this.getImageBounds(map);
+
+		map.setMaxBounds(bounds);
+		map.fitBounds(bounds, options);
+
+		return this;
+	}
+
+	// Returns the size of the image at the given native zoom level.
+	_levelSize(zoom: number): Point {
+		const scale = 2 ** (this.options.maxNativeZoom! - zoom);
+
+		return new Point(Math.ceil(this._width / scale), Math.ceil(this._height / scale));
+	}
+
+	// Returns the size of the image part shown by the tile, which is less than the tile size
+	// at the right and bottom edges of the image.
+	_tilePartSize(coords: Point): Point {
+		const
+			tileSize = this.getTileSize(),
+			levelSize = this._levelSize(coords.z!); // TODO: null safety
+
+		return new Point(
+			Math.min(tileSize.x, levelSize.x - coords.x * tileSize.x),
+			Math.min(tileSize.y, levelSize.y - coords.y * tileSize.y),
+		);
+	}
+
+	createTile(coords: Point, done: DoneFn = Util.falseFn): HTMLImageElement {
+		const
+			tile = super.createTile(coords, done),
+			overlap = this._overlap,
+			levelSize = this._levelSize(coords.z!), // TODO: null safety
+			tileSize = this.getTileSize(),
+			partSize = this._tilePartSize(coords),
+			// Tiles have overlapping borders on the sides where they have neighbours
+			left = coords.x > 0 ? overlap : 0,
+			top = coords.y > 0 ? overlap : 0,
+			right = (coords.x + 1) * tileSize.x < levelSize.x ? overlap : 0,
+			bottom = (coords.y + 1) * tileSize.y < levelSize.y ? overlap : 0;
+
+		this._layouts.set(tile, {
+			size: partSize.add(new Point(left + right, top + bottom)),
+			offset: new Point(-left, -top),
+		});
+
+		return tile;
+	}
+
+	_initTile(tile: HTMLElement): void {
+		super._initTile(tile);
+
+		const layout = this._layouts.get(tile);
+
+		if (layout) {
+			tile.style.width = `${layout.size.x}px`;
+			tile.style.height = `${layout.size.y}px`;
+			tile.style.marginLeft = `${layout.offset.x}px`;
+			tile.style.marginTop = `${layout.offset.y}px`;
+		}
+	}
+
+	// There are no tiles outside of the image
+	_isValidTile(coords: Point): boolean {
+		const
+			tileSize = this.getTileSize(),
+			levelSize = this._levelSize(coords.z!); // TODO: null safety
+
+		return super._isValidTile(coords) &&
+			coords.x >= 0 && coords.x * tileSize.x < levelSize.x &&
+			coords.y >= 0 && coords.y * tileSize.y < levelSize.y;
+	}
+
+}
@@ -0,0 +1,432 @@
+import { Util } from '../../core';
+import { LatLng, LatLngBounds } from '../../geog';
+import type { Point } from '../../geom';
+import type { TileSource } from './TileSource.js';
+
+export interface PMTilesOptions {
+	/** Options of the `fetch()` requests for the archive, e.g. headers. None by default. */
+	fetchOptions: RequestInit;
+	/** Maximum number of directories kept in memory. 64 by default. */
+	directoryCacheSize: number;
+}
+
+export type PMTilesCompression = 'unknown' | 'none' | 'gzip' | 'brotli' | 'zstd';
+
+export type PMTilesTileType = 'unknown' | 'mvt' | 'png' | 'jpeg' | 'webp' | 'avif';
+
+/** The header of a PMTiles archive, see `PMTiles.getHeader()`. */
+export interface PMTilesHeader {
+	rootDirectoryOffset: number;
+	rootDirectoryLength: number;
+	metadataOffset: number;
+	metadataLength: number;
+	leafDirectoriesOffset: number;
+	leafDirectoriesLength: number;
+	tileDataOffset: number;
+	tileDataLength: number;
+	/** Compression of the directories and metadata. */
+	internalCompression: PMTilesCompression;
+	/** Compression of the tiles. */
+	tileCompression: PMTilesCompression;
+	tileType: PMTilesTileType;
+	minZoom: number;
+	maxZoom: number;
+	bounds: LatLngBounds;
+	center: LatLng;
+	centerZoom: number;
+}
+
+// A directory entry: either a run of tiles with the same data, or (if `runLength` is 0)
+// a leaf directory covering the tile IDs from `tileId` on
+interface DirectoryEntry {
+	tileId: number;
+	offset: number;
+	length: number;
+	runLength: number;
+}
+
+const
+	HEADER_LENGTH = 127,
+	// The first request gets the header and (in archives written by the usual tools) the
+	// root directory at once
+	FIRST_REQUEST_LENGTH = 16384,
+	// Leaf directories can't be nested deeper than this
+	MAX_DIRECTORY_DEPTH = 4,
+	compressions: PMTilesCompression[] = ['unknown', 'none', 'gzip', 'brotli', 'zstd'],
+	tileTypes: PMTilesTileType[] = ['unknown', 'mvt', 'png', 'jpeg', 'webp', 'avif'],
+	mimeTypes: Dict<string> = {
+		mvt: 'application/vnd.mapbox-vector-tile',
+		png: 'image/png',
+		jpeg: 'image/jpeg',
+		webp: 'image/webp',
+		avif: 'image/avif',
+	};
+
+/**
+ * Reads tiles from a [PMTiles](https://github.com/protomaps/PMTiles) (version 3) archive,
+ * i.e. a single file holding a whole tile set, with HTTP `Range` requests. Works with any
+ * static file server: if the server ignores `Range` headers, the whole archive is
+ * downloaded once and kept in memory. Directories are cached, and compressed directories
+ * and tiles are decompressed with `DecompressionStream` (which supports gzip only).
+ *
+ * Pass the archive as the `source` of a `TileLayer` for raster tiles, or of a
+ * `VectorTileLayer` for vector tiles:
+ *
+ * ```js
+ * const archive = new PMTiles('/data/network.pmtiles');
+ *
+ * archive.getHeader().then(header => {
+ *     map.addLayer(new TileLayer('', {
+ *         source: archive,
+ *         minZoom: header.minZoom,
+ *         maxNativeZoom: header.maxZoom,
+ *         bounds: header.bounds,
+ *     }));
+ * });
+ * ```
+ */
+export class PMTiles implements TileSource {
+
+	declare options: PMTilesOptions;
+
+	_header: Promise<PMTilesHeader> | undefined;
+	// Directories by offset and length, in the order they were last used
+	_directories = new Map<string, Promise<DirectoryEntry[]>>();
+	// The whole archive, if the server ignored a `Range` header
+	_archive: Promise<ArrayBuffer> | undefined;
+
+	constructor(
+		public _url: string,
+		options?: Partial<PMTilesOptions>,
+	) {
+		Util.setOptions(this, options, {
+			fetchOptions: {},
+			directoryCacheSize: 64,
+		});
+	}
+
+	// Returns the header of the archive.
+	getHeader(): Promise<PMTilesHeader> {
+		if (!this._header) {
+			this._header = this._fetchRange(0, FIRST_REQUEST_LENGTH).then(data => {
+				const header = parseHeader(data);
+
+				// Keep the root directory if it came with the header
+				if (header.rootDirectoryOffset + header.rootDirectoryLength <= data.byteLength) {
+					this._cacheDirectory(
+						header.rootDirectoryOffset,
+						header.rootDirectoryLength,
+						decompress(
+							data.slice(header.rootDirectoryOffset, header.rootDirectoryOffset + header.rootDirectoryLength),
+							header.internalCompression,
+						).then(parseDirectory),
+					);
+				}
+
+				return header;
+			});
+
+			// Let failed requests (e.g. while offline) be tried again
+			this._header.catch(() => { this._header = undefined; });
+		}
+
+		return this._header;
+	}
+
+	// Returns the JSON metadata of the archive (e.g. the `vector_layers` of vector tiles).
+	getMetadata(): Promise<Dict<any>> {
+		return this.getHeader().then(header => this._fetchRange(header.metadataOffset, header.metadataLength)
+			.then(data => decompress(data, header.internalCompression))
+			.then(data => JSON.parse(new TextDecoder().decode(data))));
+	}
+
+	// Returns the data of the tile at the given coordinates, or `undefined` if the archive
+	// doesn't have it.
+	getTile(coords: Point, signal?: AbortSignal): Promise<Blob | undefined> {
+		const
+			z = coords.z!, // TODO: null safety
+			tileId = zxyToTileId(z, coords.x, coords.y);
+
+		return this.getHeader().then(header => {
+			if (z < header.minZoom || z > header.maxZoom) { return undefined; }
+
+			const find = (offset: number, length: number, depth: number): Promise<Blob | undefined> =>
+				this._getDirectory(offset, length, header, signal).then(entries => {
+					const entry = findEntry(entries, tileId);
+
+					if (!entry) { return undefined; }
+
+					if (entry.runLength > 0) {
+						return this._fetchRange(header.tileDataOffset + entry.offset, entry.length, signal)
+							.then(data => decompress(data, header.tileCompression))
+							.then(data => new Blob([data], { type: mimeTypes[header.tileType] }));
+					}
+
+					if (depth >= MAX_DIRECTORY_DEPTH) {
+						throw new Error('PMTiles leaf directories are nested too deeply');
+					}
+
+					return find(header.leafDirectoriesOffset + entry.offset, entry.length, depth + 1);
+				});
+
+			return find(header.rootDirectoryOffset, header.rootDirectoryLength, 1);
+		});
+	}
+
+	_getDirectory(offset: number, length: number, header: PMTilesHeader, signal?: AbortSignal): Promise<DirectoryEntry[]> {
+		const
+			key = `${offset}:${length}`,
+			cached = this._directories.get(key);
+
+		if (cached) {
+			// Mark the directory as the most recently used
+			this._directories.delete(key);
+			this._directories.set(key, cached);
+			return cached;
+		}
+
+		// Directories are shared by many tiles, so they are loaded even if the tile is aborted
+		const directory = this._fetchRange(offset, length)
+			.then(data => decompress(data, header.internalCompression))
+			.then(parseDirectory);
+
+		this._cacheDirectory(offset, length, directory);
+
+		return signal ? abortable(directory, signal) : directory;
+	}
+
+	_cacheDirectory(offset: number, length: number, directory: Promise<DirectoryEntry[]>): void {
+		const key = `${offset}:${length}`;
+
+		this._directories.set(key, directory);
+		directory.catch(() => this._directories.delete(key));
+
+		if (this._directories.size > this.options.directoryCacheSize) {
+			this._directories.delete(this._directories.keys().next().value!);
+		}
+	}
+
+	_fetchRange(offset: number, length: number, signal?: AbortSignal): Promise<ArrayBuffer> {
+		const slice = (archive: ArrayBuffer) => archive.slice(offset, offset + length);
+
+		if (this._archive) {
+			return this._archive.then(slice);
+		}
+
+		const
+			fetchOptions = this.options.fetchOptions,
+			headers = new Headers(fetchOptions.headers);
+
+		headers.set('Range', `bytes=${offset}-${offset + length - 1}`);
+
+		return fetch(this._url, { ...fetchOptions, headers, signal }).then(response => {
+			if (response.status === 200) {
+				// The server ignored the range and sent the whole archive, so keep it rather
+				// than downloading it again for every tile
+				if (!this._archive) {
+					this._archive = response.arrayBuffer();
+					this._archive.catch(() => { this._archive = undefined; });
+				}
+				return this._archive.then(slice);
+			}
+
+			if (response.status !== 206) {
+				throw new Error(`PMTiles request failed with status ${response.status}`);
+			}
+
+			return response.arrayBuffer();
+		});
+	}
+
+}
+
+/**
+ * Returns the ID of the tile at the given coordinates in a PMTiles archive: tiles are
+ * numbered zoom level by zoom level, along a Hilbert curve within each level.
+ */
+export function zxyToTileId(z: number, x: number, y: number): number {
+	if (z > 26) {
+		throw new Error('PMTiles tile IDs are only defined up to zoom level 26');
+	}
+
+	const n = 2 ** z;
+
+	if (x < 0 || y < 0 || x >= n || y >= n) {
+		throw new Error(`Tile ${x}, ${y} is outside of zoom level ${z}`);
+	}
+
+	// Number of tiles of the lower zoom levels
+	let id = (4 ** z - 1) / 3;
+
+	for (let s = n / 2; s >= 1; s /= 2) {
+		const
+			rx = (x & s) > 0 ? 1 : 0,
+			ry = (y & s) > 0 ? 1 : 0;
+
+		id += s * s * ((3 * rx) ^ ry);
+
+		// Rotate the quadrant so that the curve continues in the right direction
+		if (ry === 0) {
+			if (rx === 1) {
+				x = n - 1 - x;
+				y = n - 1 - y;
+			}
+			[x, y] = [y, x];
+		}
+	}
+
+	return id;
+}
+
+function parseHeader(data: ArrayBuffer): PMTilesHeader {
+	const view = new DataView(data);
+
+	if (data.byteLength < HEADER_LENGTH || new TextDecoder().decode(data.slice(0, 7)) !== 'PMTiles') {
+		throw new Error('Not a PMTiles archive');
+	}
+
+	if (view.getUint8(7) !== 3) {
+		throw new Error(`Unsupported PMTiles version ${view.getUint8(7)}`);
+	}
+
+	// Offsets and lengths are 64-bit, but archives are far below 2^53 bytes
+	const
+		uint64 = (pos: number) => view.getUint32(pos, true) + view.getUint32(pos + 4, true) * 2 ** 32,
+		degrees = (pos: number) => view.getInt32(pos, true) / 1e7;
+
+	return {
+		rootDirectoryOffset: uint64(8),
+		rootDirectoryLength: uint64(16),
+		metadataOffset: uint64(24),
+		metadataLength: uint64(32),
+		leafDirectoriesOffset: uint64(40),
+		leafDirectoriesLength: uint64(48),
+		tileDataOffset: uint64(56),
+		tileDataLength: uint64(64),
+		internalCompression: compressions[view.getUint8(97)] || 'unknown',
+		tileCompression: compressions[view.getUint8(98)] || 'unknown',
+		tileType: tileTypes[view.getUint8(99)] || 'unknown',
+		minZoom: view.getUint8(100),
+		maxZoom: view.getUint8(101),
+		bounds: new LatLngBounds(
+			new LatLng(degrees(106), degrees(102)),
+			new LatLng(degrees(114), degrees(110)),
+		),
+		centerZoom: view.getUint8(118),
+		center: new LatLng(degrees(123), degrees(119)),
+	};
+}
+
+// Decodes a directory: the number of entries, then the tile IDs (as deltas), run lengths,
+// lengths and offsets of all entries, each as varints
+function parseDirectory(data: ArrayBuffer): DirectoryEntry[] {
+	const
+		bytes = new Uint8Array(data),
+		entries: DirectoryEntry[] = [];
+
+	let pos = 0;
+
+	const readVarint = (): number => {
+		let
+			value = 0,
+			multiplier = 1,
+			byte: number;
+
+		do {
+			if (pos >= bytes.length) {
+				throw new Error('Truncated PMTiles directory');
+			}
+
+			byte = bytes[pos++];
+			value += (byte & 0x7f) * multiplier;
+			multiplier *= 128;
+		} while (byte & 0x80);
+
+		return value;
+	};
+
+	const count = readVarint();
+
+	let tileId = 0;
+
+	for (let i = 0; i < count; i++) {
+		tileId += readVarint();
+		entries.push({ tileId, offset: 0, length: 0, runLength: 0 });
+	}
+
+	for (const entry of entries) {
+		entry.runLength = readVarint();
+	}
+
+	for (const entry of entries) {
+		entry.length = readVarint();
+	}
+
+	for (let i = 0; i < count; i++) {
+		const value = readVarint();
+
+		// 0 means right after the previous entry
+		entries[i].offset = value === 0 && i > 0 ?
+			entries[i - 1].offset + entries[i - 1].length :
+			value - 1;
+	}
+
+	return entries;
+}
+
+// Finds the entry with the tile, or the leaf directory which may have it
+function findEntry(entries: DirectoryEntry[], tileId: number): DirectoryEntry | undefined {
+	let
+		low = 0,
+		high = entries.length - 1;
+
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+
+		if (entries[mid].tileId < tileId) {
+			low = mid + 1;
+		} else if (entries[mid].tileId > tileId) {
+			high = mid - 1;
+		} else {
+			return entries[mid];
+		}
+	}
+
+	// The entry before the tile ID covers it if it's a leaf directory or a long enough run
+	const entry = entries[high];
+
+	if (entry && (entry.runLength === 0 || tileId - entry.tileId < entry.runLength)) {
+		return entry;
+	}
+
+	return undefined;
+}
+
+function decompress(data: ArrayBuffer, compression: PMTilesCompression): Promise<ArrayBuffer> {
+	if (compression === 'none' || compression === 'unknown') {
+		return Promise.resolve(data);
+	}
+
+	if (compression !== 'gzip') {
+		return Promise.reject(new Error(`Unsupported PMTiles compression '${compression}'`));
+	}
+
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+
+	return new Response(stream).arrayBuffer();
+}
+
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+	return new Promise((resolve, reject) => {
+		if (signal.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const onAbort = () => reject(signal.reason);
+
+		// Signals may outlive many promises, which must not pile up listeners on them
+		signal.addEventListener('abort', onAbort, { once: true });
+		promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
@@ -0,0 +1,110 @@
+import type { Point } from '../../geom';
+import { ImagePyramidLayer } from './ImagePyramidLayer.js';
+import type { TileLayerOptions } from './TileLayer.js';
+
+/** The properties of a Deep Zoom image, as described by its `.dzi` file. */
+export interface DZIDescriptor {
+	width: number;
+	height: number;
+	/** Size of the tiles, not counting their overlapping borders. */
+	tileSize: number;
+	/** Width of the borders which tiles share with their neighbours, in pixels. */
+	overlap: number;
+	/** Format (file extension) of the tile images, e.g. `'jpg'`. */
+	format: string;
+}
+
+/**
+ * Parses a Deep Zoom image descriptor (the contents of a `.dzi` file), in either the XML
+ * or the JSON flavour. Throws an error if it is not a Deep Zoom image descriptor.
+ */
+export function parseDZI(text: string): DZIDescriptor {
+	const trimmed = text.trim();
+
+	if (trimmed.startsWith('{')) {
+		const image = JSON.parse(trimmed).Image;
+
+		if (!image?.Size) {
+			throw new Error('Not a Deep Zoom image descriptor');
+		}
+
+		return {
+			width: Number(image.Size.Width),
+			height: Number(image.Size.Height),
+			tileSize: Number(image.TileSize),
+			overlap: Number(image.Overlap || 0),
+			format: image.Format,
+		};
+	}
+
+	const
+		image = new DOMParser().parseFromString(trimmed, 'application/xml').documentElement,
+		size = image.getElementsByTagNameNS('*', 'Size')[0];
+
+	if (image.localName !== 'Image' || !size) {
+		throw new Error('Not a Deep Zoom image descriptor');
+	}
+
+	return {
+		width: Number(size.getAttribute('Width')),
+		height: Number(size.getAttribute('Height')),
+		tileSize: Number(image.getAttribute('TileSize')),
+		overlap: Number(image.getAttribute('Overlap') || 0),
+		format: image.getAttribute('Format') || 'jpg',
+	};
+}
+
+/**
+ * Displays a [Deep Zoom](https://en.wikipedia.org/wiki/Deep_Zoom) image on a map with
+ * `CRS.Simple`. The tiles are expected next to the `.dzi` file, in the `<name>_files`
+ * folder, as generated by e.g. `vips dzsave`. Extends `ImagePyramidLayer`.
+ *
+ * ```js
+ * TileLayerDZI.load('/schematics/depot.dzi').then(layer => {
+ *     map.addLayer(layer);
+ *     layer.fitMap(map);
+ * });
+ * ```
+ */
+export class TileLayerDZI extends ImagePyramidLayer {
+
+	_format: string;
+	// The Deep Zoom level of the image at its full resolution, where level 0 is one pixel
+	_maxLevel: number;
+
+	constructor(
+		dziUrl: string,
+		descriptor: DZIDescriptor,
+		options?: Partial<TileLayerOptions>,
+	) {
+		super(
+			dziUrl.replace(/\.(dzi|xml|json)$/, '_files'),
+			descriptor.width,
+			descriptor.height,
+			{ tileSize: descriptor.tileSize, ...options },
+		);
+
+		this._overlap = descriptor.overlap;
+		this._format = descriptor.format;
+		this._maxLevel = Math.ceil(Math.log2(Math.max(descriptor.width, descriptor.height)));
+	}
+
+	// Fetches the `.dzi` file and creates a layer for the image.
+	static load(dziUrl: string, options?: Partial<TileLayerOptions>): Promise<TileLayerDZI> {
+		return fetch(dziUrl)
+			.then(response => {
+				if (!response.ok) {
+					throw new Error(`Deep Zoom image descriptor request failed with status ${response.status}`);
+				}
+				return response.text();
+			})
+			.then(text => new TileLayerDZI(dziUrl, parseDZI(text), options));
+	}
+
+	getTileUrl(coords: Point): string {
+		const level = coords.z! + this._maxLevel - this.options.maxNativeZoom!; // TODO: null safety
+
+		return `${this._url}/${level}/${coords.x}_${coords.y}.${this._format}`;
+	}
+
+}
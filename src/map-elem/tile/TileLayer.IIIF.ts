@@ -0,0 +1,119 @@
+import { Util } from '../../core';
+import { Point } from '../../geom';
+import { ImagePyramidLayer } from './ImagePyramidLayer.js';
+import type { TileLayerOptions } from './TileLayer.js';
+
+/**
+ * The parts of an [IIIF Image API](https://iiif.io/api/image/3.0/#5-image-information)
+ * `info.json` document (version 2 or 3) used by `TileLayerIIIF`.
+ */
+export interface IIIFImageInfo {
+	'@context'?: string | string[];
+	/** Base URI of the image in version 3. */
+	id?: string;
+	/** Base URI of the image in version 2. */
+	'@id'?: string;
+	width: number;
+	height: number;
+	/** The tile sizes and scale factors the server provides, required for level 0 servers. */
+	tiles?: {
+		width: number;
+		height?: number;
+		scaleFactors: number[];
+	}[];
+}
+
+export interface TileLayerIIIFOptions extends TileLayerOptions {
+	/**
+	 * Quality of the tile images. 'default' by default.
+	 */
+	quality: string;
+	/**
+	 * Format (file extension) of the tile images. 'jpg' by default.
+	 */
+	format: string;
+}
+
+/**
+ * Displays an image served by an [IIIF Image API](https://iiif.io/api/image/) server
+ * (compliance level 0 or above, version 2 or 3) on a map with `CRS.Simple`. Extends
+ * `ImagePyramidLayer`.
+ *
+ * The tile size and the native zoom levels come from the `tiles` of the image information,
+ * so that level 0 servers (which only serve the tiles they list) work. Images without
+ * `tiles` are requested in tiles of the `tileSize` option.
+ *
+ * ```js
+ * TileLayerIIIF.load('https://example.com/iiif/network-map/info.json').then(layer => {
+ *     map.addLayer(layer);
+ *     layer.fitMap(map);
+ * });
+ * ```
+ */
+export class TileLayerIIIF extends ImagePyramidLayer {
+
+	declare options: TileLayerIIIFOptions;
+
+	_version: 2 | 3;
+
+	constructor(
+		info: IIIFImageInfo,
+		options?: Partial<TileLayerIIIFOptions>,
+	) {
+		const
+			tiles = info.tiles?.[0],
+			id = info.id || info['@id'];
+
+		if (!id) {
+			throw new Error('The IIIF image information has no id');
+		}
+
+		super(id.replace(/\/$/, ''), info.width, info.height, tiles ? {
+			tileSize: new Point(tiles.width, tiles.height || tiles.width),
+			...options,
+		} : options);
+
+		Util.setOptions(this, options, {
+			quality: 'default',
+			format: 'jpg',
+		});
+
+		const context = ([] as string[]).concat(info['@context'] || []);
+
+		this._version = context.some(c => c.includes('/image/3/')) ? 3 : 2;
+
+		// Level 0 servers only have the tiles of the listed scale factors
+		if (tiles && tiles.scaleFactors.length) {
+			this.options.minNativeZoom = Math.max(0, this.options.maxNativeZoom! -
+				Math.floor(Math.log2(Math.max(...tiles.scaleFactors))));
+		}
+	}
+
+	// Fetches the image information (`info.json`) and creates a layer for the image.
+	static load(infoUrl: string, options?: Partial<TileLayerIIIFOptions>): Promise<TileLayerIIIF> {
+		return fetch(infoUrl)
+			.then(response => {
+				if (!response.ok) {
+					throw new Error(`IIIF image information request failed with status ${response.status}`);
+				}
+				return response.json();
+			})
+			.then((info: IIIFImageInfo) => new TileLayerIIIF(info, options));
+	}
+
+	getTileUrl(coords: Point): string {
+		const
+			tileSize = this.getTileSize(),
+			scale = 2 ** (this.options.maxNativeZoom! - coords.z!), // TODO: null safety
+			partSize = this._tilePartSize(coords),
+			// The region is in full resolution pixels, and may be cut off at the image edges
+			x = coords.x * tileSize.x * scale,
+			y = coords.y * tileSize.y * scale,
+			w = Math.min(tileSize.x * scale, this._width - x),
+			h = Math.min(tileSize.y * scale, this._height - y),
+			size = this._version === 3 ? `${partSize.x},${partSize.y}` : `${partSize.x},`;
+
+		return `${this._url}/${x},${y},${w},${h}/${size}/0/${this.options.quality}.${this.options.format}`;
+	}
+
+}
@@ -0,0 +1,291 @@
+import { Util } from '../../core';
+import type { CRS } from '../../geog/crs';
+import { Point } from '../../geom';
+import type { Map } from '../../map';
+import { TileLayer, type TileLayerOptions } from './TileLayer.js';
+import type { WMTSCapabilities, WMTSTileMatrix, WMTSTileMatrixSet } from './wmts-capabilities.js';
+
+export interface TileLayerWMTSOptions extends TileLayerOptions {
+	/**
+	 * Identifier of the WMTS layer to show. REQUIRED.
+	 */
+	layer: string;
+	/**
+	 * Identifier of the style of the layer. 'default' by default.
+	 */
+	style: string;
+	/**
+	 * Image format of the tiles. 'image/png' by default.
+	 */
+	format: string;
+	/**
+	 * The tile matrix set to request the tiles in, which must be in the CRS of the map.
+	 * The tile size of the layer is taken from its tile matrices unless the `tileSize`
+	 * option is given. REQUIRED.
+	 */
+	tileMatrixSet: WMTSTileMatrixSet | undefined;
+	/**
+	 * How tile requests are encoded: 'KVP' to add the parameters to the query string of the
+	 * layer URL, 'REST' if the layer URL is a template with `{TileMatrix}`, `{TileRow}`,
+	 * `{TileCol}`, etc. variables (which are matched regardless of case). 'KVP' by default.
+	 */
+	requestEncoding: 'KVP' | 'REST';
+	/**
+	 * Values of the dimensions of the layer, e.g. `{ TIME: '2024-06-01' }`. With the REST
+	 * encoding, every dimension needs a value. None by default.
+	 */
+	dimensions: Dict<string>;
+}
+
+// A tile matrix with the map zoom level it matches, and the map tile coordinates of its
+// top left tile
+interface TileMatrixLevel {
+	zoom: number;
+	matrix: WMTSTileMatrix;
+	offset: Point;
+}
+
+/**
+ * Used to display [WMTS](https://www.ogc.org/standard/wmts/) services as tile layers on
+ * the map. Extends `TileLayer`.
+ *
+ * Unlike regular tile layers, the zoom levels of the tiles come from the scales of the
+ * tile matrix set, which don't have to be the `256 * 2^zoom` of most CRSs: every tile
+ * matrix is shown at the (possibly fractional) map zoom of the same scale, and the tiles
+ * of the closest tile matrix are scaled to the map zoom in between. The tile matrices
+ * must line up with the pixel grid of the map though, i.e. their top left corners must
+ * be a whole number of tiles away from the origin of the CRS.
+ *
+ * The layer is best created from the capabilities of the service:
+ *
+ * ```js
+ * fetch('https://example.com/wmts/1.0.0/WMTSCapabilities.xml')
+ *     .then(response => response.text())
+ *     .then(xml => {
+ *         const radar = TileLayerWMTS.fromCapabilities(parseWMTSCapabilities(xml), 'radar', {
+ *             tileMatrixSet: 'GoogleMapsCompatible',
+ *             dimensions: { Time: '2024-06-01T12:00:00Z' },
+ *         });
+ *
+ *         map.addLayer(radar);
+ *     });
+ * ```
+ */
+export class TileLayerWMTS extends TileLayer {
+
+	declare options: TileLayerWMTSOptions;
+
+	// Sorted by zoom, set when added to a map
+	_tileMatrices: TileMatrixLevel[] = [];
+
+	constructor(
+		url: string,
+		options?: Partial<TileLayerWMTSOptions>,
+	) {
+		super(url, options);
+
+		const opts = Util.setOptions(this, options, {
+			layer: '',
+			style: 'default',
+			format: 'image/png',
+			tileMatrixSet: undefined,
+			requestEncoding: 'KVP',
+			dimensions: {},
+		});
+
+		const matrix = opts.tileMatrixSet?.tileMatrices[0];
+
+		if (matrix && !options?.tileSize) {
+			opts.tileSize = new Point(matrix.tileWidth, matrix.tileHeight);
+		}
+	}
+
+	// Creates a layer for the WMTS layer with the given identifier from the capabilities of
+	// the service, using the tile matrix set with the identifier given as the `tileMatrixSet`
+	// option (or the first one of the layer), the default style and the first format of the
+	// layer, and the default values of its dimensions, unless given in the options. Tiles are
+	// requested with the REST encoding if the layer has a URL template, unless the
+	// `requestEncoding` option is 'KVP'.
+	static fromCapabilities(
+		capabilities: WMTSCapabilities,
+		identifier: string,
+		options?: Partial<Omit<TileLayerWMTSOptions, 'tileMatrixSet'>> & { tileMatrixSet?: string },
+	): TileLayerWMTS {
+		const layer = capabilities.layers.find(l => l.identifier === identifier);
+
+		if (!layer) {
+			throw new Error(`The WMTS service has no layer '${identifier}'`);
+		}
+
+		const
+			setIdentifier = options?.tileMatrixSet || layer.tileMatrixSets[0],
+			tileMatrixSet = capabilities.tileMatrixSets.find(set => set.identifier === setIdentifier),
+			format = options?.format || layer.formats[0],
+			resourceUrl = layer.resourceUrls.find(url => url.resourceType === 'tile' && (!format || url.format === format)),
+			dimensions: Dict<string> = {};
+
+		if (!tileMatrixSet || !layer.tileMatrixSets.includes(setIdentifier)) {
+			throw new Error(`The WMTS layer '${identifier}' has no tile matrix set '${setIdentifier}'`);
+		}
+
+		for (const dimension of layer.dimensions) {
+			dimensions[dimension.identifier] = dimension.default;
+		}
+
+		let
+			url = capabilities.getTileUrl,
+			requestEncoding: 'KVP' | 'REST' = 'KVP';
+
+		if (resourceUrl && options?.requestEncoding !== 'KVP') {
+			url = resourceUrl.template;
+			requestEncoding = 'REST';
+		}
+
+		if (!url) {
+			throw new Error(`The WMTS service has no ${options?.requestEncoding || ''} tile URL for layer '${identifier}'`);
+		}
+
+		return new TileLayerWMTS(url, {
+			...options,
+			layer: identifier,
+			style: options?.style || layer.defaultStyle || layer.styles[0] || 'default',
+			format: format || resourceUrl?.format || 'image/png',
+			tileMatrixSet,
+			requestEncoding,
+			dimensions: { ...dimensions, ...options?.dimensions },
+		});
+	}
+
+	onAdd(map: Map): this {
+		this._tileMatrices = this._matchTileMatrices(map.options.crs);
+
+		super.onAdd(map);
+
+		return this;
+	}
+
+	getTileUrl(coords: Point): string {
+		const
+			{ layer, style, format, tileMatrixSet, requestEncoding, dimensions } = this.options,
+			level = this._tileMatrixAt(coords.z!)!, // TODO: null safety
+			row = coords.y - level.offset.y,
+			col = coords.x - level.offset.x;
+
+		if (requestEncoding === 'REST') {
+			const data: Dict<string | number> = {
+				...dimensions,
+				Style: style,
+				TileMatrixSet: tileMatrixSet!.identifier, // TODO: null safety
+				TileMatrix: level.matrix.identifier,
+				TileRow: row,
+				TileCol: col,
+			};
+
+			return this._url.replace(/\{(\w+)\}/g, (str, name: string) => {
+				const key = Object.keys(data).find(k => k.toLowerCase() === name.toLowerCase());
+
+				if (key === undefined) {
+					throw new Error(`No value provided for variable ${str}`);
+				}
+
+				return encodeURIComponent(data[key]);
+			});
+		}
+
+		return this._url + Util.getParamString({
+			SERVICE: 'WMTS',
+			REQUEST: 'GetTile',
+			VERSION: '1.0.0',
+			LAYER: layer,
+			STYLE: style,
+			FORMAT: format,
+			TILEMATRIXSET: tileMatrixSet!.identifier, // TODO: null safety
+			TILEMATRIX: level.matrix.identifier,
+			TILEROW: row,
+			TILECOL: col,
+			...dimensions,
+		}, this._url);
+	}
+
+	// Merges the given values into the dimensions of the layer (e.g. to show another `TIME`)
+	// and re-requests the tiles on the screen (unless `noRedraw` was set to true).
+	setDimensions(dimensions: Dict<string>, noRedraw?: boolean): this {
+		this.options.dimensions = { ...this.options.dimensions, ...dimensions };
+
+		if (!noRedraw) {
+			this.redraw();
+		}
+
+		return this;
+	}
+
+	// Works out the map zoom level of every tile matrix from its scale, and where its tiles
+	// are in the tile grid of the map at that zoom
+	_matchTileMatrices(crs: CRS): TileMatrixLevel[] {
+		const set = this.options.tileMatrixSet;
+
+		if (!set) {
+			throw new Error('The tileMatrixSet option of a WMTS layer is required');
+		}
+
+		const tileSize = this.getTileSize();
+
+		return set.tileMatrices.map(matrix => {
+			// WMTS scale denominators assume pixels of 0.28 mm
+			const
+				resolution = matrix.scaleDenominator * 0.00028 / set.metersPerUnit,
+				topLeft = crs.unproject(matrix.topLeftCorner),
+				topRight = crs.unproject(matrix.topLeftCorner.add(new Point(resolution * matrix.tileWidth, 0))),
+				widthAtZoom0 = crs.latLngToPoint(topRight, 0).x - crs.latLngToPoint(topLeft, 0).x;
+
+			let zoom = crs.zoom(crs.scale(0) * matrix.tileWidth / widthAtZoom0);
+
+			// Keep the zoom levels of the usual tile matrix sets whole despite rounding errors
+			if (Math.abs(zoom - Math.round(zoom)) < 1e-6) {
+				zoom = Math.round(zoom);
+			}
+
+			return {
+				zoom,
+				matrix,
+				offset: crs.latLngToPoint(topLeft, zoom).unscaleBy(tileSize).round(),
+			};
+		}).sort((a, b) => a.zoom - b.zoom);
+	}
+
+	_tileMatrixAt(zoom: number): TileMatrixLevel | undefined {
+		return this._tileMatrices.find(level => level.zoom === zoom);
+	}
+
+	// Snaps the zoom to the one of the closest tile matrix
+	_clampZoom(zoom: number): number {
+		const levels = this._tileMatrices;
+
+		zoom = super._clampZoom(zoom);
+
+		if (!levels.length) { return zoom; }
+
+		return levels.reduce(
+			(closest, level) => Math.abs(level.zoom - zoom) < Math.abs(closest - zoom) ? level.zoom : closest,
+			levels[0].zoom,
+		);
+	}
+
+	// Tile matrices may cover less than the whole world
+	_isValidTile(coords: Point): boolean {
+		if (!super._isValidTile(coords)) { return false; }
+
+		const
+			level = this._tileMatrixAt(coords.z!), // TODO: null safety
+			wrapped = this._wrapCoords(coords);
+
+		if (!level) { return false; }
+
+		const
+			row = wrapped.y - level.offset.y,
+			col = wrapped.x - level.offset.x;
+
+		return row >= 0 && col >= 0 && row < level.matrix.matrixHeight && col < level.matrix.matrixWidth;
+	}
+
+}
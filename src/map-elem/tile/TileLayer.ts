@@ -1,7 +1,11 @@
 import { Browser, Util } from '../../core';
-import { DomEvent } from '../../dom';
-import type { Point } from '../../geom';
-import { GridLayer, type DoneFn, type GridLayerOptions } from './GridLayer.js';
+import { DomEvent, DomUtil } from '../../dom';
+import { Point } from '../../geom';
+import { GridLayer, type DoneFn, type GridLayerOptions, type TileModel } from './GridLayer.js';
+import { TileScheduler, type TileRequest } from './TileScheduler.js';
+import { requestFromSource, type TileSource } from './TileSource.js';
+import type { TileStore } from './TileStore.js';
+import { tileJSONOptions, type TileJSON } from './tilejson.js';
 
 export interface TileLayerOptions extends GridLayerOptions {
 	/**
@@ -56,6 +60,45 @@ export interface TileLayerOptions extends GridLayerOptions {
 	 * for possible values.
 	 */
 	referrerPolicy: string | undefined;
+	/**
+	 * Store of tile images (e.g. filled with `TilePrefetch` for offline use) which is
+	 * looked up by tile URL before requesting a tile from the network. Undefined by default.
+	 */
+	store: TileStore | undefined;
+	/**
+	 * Whether to load tiles with `fetch()` through the `TileScheduler` of the map, which
+	 * loads the tiles closest to the center of the view first and really cancels the
+	 * requests for tiles which are no longer needed. This needs a tile server which allows
+	 * [CORS](https://developer.mozilla.org/en-US/docs/Web/HTTP/CORS) requests: once a
+	 * request fails without a response (as it does when CORS is denied), the layer falls
+	 * back to setting the `src` of `<img>` elements, as it does when this is false.
+	 * True by default.
+	 */
+	useScheduler: boolean;
+	/**
+	 * Number of times a tile which failed to load is requested again before giving up.
+	 * 0 by default.
+	 */
+	maxRetries: number;
+	/**
+	 * Delay before the first retry of a failed tile, in milliseconds. The delay doubles with
+	 * every retry, and is randomized by up to half so that the retries of neighbouring
+	 * tiles do not all hit the server at once. 500 by default.
+	 */
+	retryDelay: number;
+	/**
+	 * Whether to show the nearest loaded ancestor tile (i.e. a tile of a lower zoom level
+	 * covering the same area), cropped and scaled up, in place of a tile which could not be
+	 * loaded. Takes precedence over `errorTileUrl` when such a tile is found. False by default.
+	 */
+	fallbackToParent: boolean;
+	/**
+	 * Where to get the tile images from instead of the URL template, e.g. a `PMTiles`
+	 * archive. The source gets the coordinates of the tiles in the grid of the layer, to
+	 * which the `tms`, `zoomOffset` and `zoomReverse` options don't apply. The URL template
+	 * is then only used as the key of the tiles in the `store`. Undefined by default.
+	 */
+	source: TileSource | undefined;
 }
 
 /**
@@ -63,9 +106,10 @@ export interface TileLayerOptions extends GridLayerOptions {
  * Extends `GridLayer`.
  *
  * ```js
- * // REMEMBER: your application would need to attribute Open Street Map for this example!
  * map.addLayer(
- *     L.tileLayer('https://tile.openstreetmap.org/{z}/{x}/{y}.png?{foo}'),
+ *     L.tileLayer('https://tile.openstreetmap.org/{z}/{x}/{y}.png?{foo}', {
+ *         attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+ *     }),
  * );
  * ```
  *
@@ -87,6 +131,13 @@ export class TileLayer extends GridLayer {
 
 	declare options: TileLayerOptions;
 
+	// Requests of the tiles loaded through the scheduler, until they complete
+	_requests = new WeakMap<HTMLElement, TileRequest>();
+	// Number of times tiles were retried after failing to load
+	_retries = new WeakMap<HTMLElement, number>();
+	// Whether a tile request failed without a response, e.g. because the server does not allow CORS
+	_fetchFailed = false;
+
 	constructor(
 		public _url: string,
 		options?: Partial<TileLayerOptions>,
@@ -104,6 +155,12 @@ export class TileLayer extends GridLayer {
 			detectRetina: false,
 			crossOrigin: undefined,
 			referrerPolicy: undefined,
+			store: undefined,
+			useScheduler: true,
+			maxRetries: 0,
+			retryDelay: 500,
+			fallbackToParent: false,
+			source: undefined,
 		}) as any; // TODO
 
 		// detecting retina displays, adjusting tileSize and zoom levels
@@ -135,6 +192,14 @@ export class TileLayer extends GridLayer {
 		this.on('tileunload', this._onTileRemove);
 	}
 
+	// Creates a tile layer from a [TileJSON](https://github.com/mapbox/tilejson-spec) document,
+	// with the URL and options given by `tileJSONOptions()`. Options passed here take precedence.
+	static fromTileJSON(tileJSON: TileJSON, options?: Partial<TileLayerOptions>): TileLayer {
+		const config = tileJSONOptions(tileJSON);
+
+		return new TileLayer(config.url, { ...config.options, ...options });
+	}
+
 	// Updates the layer's URL template and redraws it (unless `noRedraw` is set to `true`).
 	// If the URL does not change, the layer will not be redrawn unless
 	// the noRedraw parameter is set to false.
@@ -175,25 +240,96 @@ export class TileLayer extends GridLayer {
 		// https://www.w3.org/WAI/tutorials/images/decorative/
 		// https://www.w3.org/TR/html-aria/#el-img-empty-alt
 		tile.alt = '';
-		tile.src = this.getTileUrl(coords);
+
+		const
+			url = this.getTileUrl(coords),
+			store = this.options.store;
+
+		if (store) {
+			const request = () => this._requestTile(tile, coords, url, done);
+
+			store.get(url).then(blob => {
+				// The tile may have been removed while looking it up
+				if (!tile.isConnected) { return; }
+
+				if (blob) {
+					this._setTileBlob(tile, blob);
+				} else {
+					request();
+				}
+			}, request);
+		} else {
+			this._requestTile(tile, coords, url, done);
+		}
 
 		return tile;
 	}
 
+	_requestTile(tile: HTMLImageElement, coords: Point, url: string, done: DoneFn): void {
+		const { source, useScheduler, crossOrigin, referrerPolicy } = this.options;
+
+		if (!source && (!useScheduler || this._fetchFailed || !this._map)) {
+			tile.src = url;
+			return;
+		}
+
+		const request = source ? requestFromSource(source, coords) : TileScheduler.forMap(this._map!).request(this, coords, url, {
+			credentials: crossOrigin === 'use-credentials' ? 'include' : 'same-origin',
+			referrerPolicy: referrerPolicy as ReferrerPolicy | undefined,
+		});
+
+		this._requests.set(tile, request);
+
+		request.promise.then(blob => {
+			this._requests.delete(tile);
+
+			// Tiles without data (e.g. missing from the source) are left blank, rather than
+			// given the empty image which marks the tiles that were aborted
+			if (blob.size) {
+				this._setTileBlob(tile, blob);
+			} else {
+				done(null, tile);
+			}
+		}, err => {
+			// Aborted tiles were removed already
+			if (!this._requests.delete(tile)) { return; }
+
+			// `fetch()` rejects with a `TypeError` on network errors, which include denied
+			// CORS requests, so let the browser load this and later tiles as plain images
+			if (!source && err instanceof TypeError) {
+				this._fetchFailed = true;
+				tile.src = url;
+			} else {
+				this._tileOnError(done, tile, err);
+			}
+		});
+	}
+
+	_setTileBlob(tile: HTMLImageElement, blob: Blob): void {
+		const objectUrl = URL.createObjectURL(blob);
+
+		DomEvent.on(tile, 'load error', () => URL.revokeObjectURL(objectUrl));
+		tile.src = objectUrl;
+	}
+
 	// Layers extending `TileLayer` might reimplement the following method.
 	// Called only internally, returns the URL for a tile given its coordinates.
 	// Classes extending `TileLayer` can override this function to provide custom tile URL naming schemes.
 	getTileUrl(coords: Point): string {
-		const data: Dict<any> = {
-			r: Browser.retina ? '@2x' : '',
-			s: this._getSubdomain(coords),
-			x: coords.x,
-			y: coords.y,
-			z: this._getZoomForUrl()
-		};
+		const
+			zoom = coords.z!, // TODO: null safety
+			data: Dict<any> = {
+				r: Browser.retina ? '@2x' : '',
+				s: this._getSubdomain(coords),
+				x: coords.x,
+				y: coords.y,
+				z: this._getZoomForUrl(zoom)
+			};
 		if (this._map && !this._map.options.crs.infinite) {
+			// Computed for the zoom of the tile rather than taken from `_globalTileRange`,
+			// so that URLs can be worked out for other zoom levels (e.g. to prefetch tiles)
 			// TODO: null safety
-			const invertedY = this._globalTileRange!.max.y - coords.y;
+			const invertedY = this._pxBoundsToTileRange(this._map.getPixelWorldBounds(zoom)!).max.y - coords.y;
 			if (this.options.tms) {
 				data.y = invertedY;
 			}
@@ -208,19 +344,125 @@ export class TileLayer extends GridLayer {
 	}
 
 	_tileOnError(done: DoneFn, tile: HTMLImageElement, e: any): void {
-		const errorUrl = this.options.errorTileUrl;
+		const
+			{ errorTileUrl: errorUrl, maxRetries, retryDelay, fallbackToParent } = this.options,
+			model = Object.values(this._tiles).find(t => t.el === tile),
+			attempts = this._retries.get(tile) || 0;
+
+		// Neither the error tile nor stored tiles (which are loaded from blob URLs) get better
+		// by trying again, unlike tiles which failed because of the network or the server
+		const retry = model && !(errorUrl && tile.src === errorUrl) && !tile.src.startsWith('blob:');
+
+		if (retry && attempts < maxRetries) {
+			const
+				maxDelay = retryDelay * 2 ** attempts,
+				delay = maxDelay / 2 + Math.random() * maxDelay / 2,
+				coords = this._wrapCoords(model.coords);
+
+			this._retries.set(tile, attempts + 1);
+
+			setTimeout(() => {
+				// The tile may have been removed while waiting
+				if (tile.isConnected) {
+					this._requestTile(tile, coords, this.getTileUrl(coords), done);
+				}
+			}, delay);
+
+			// @event tileretry: TileRetryEvent
+			// Fired when a tile failed to load and is going to be requested again after `delay`
+			// milliseconds, with the `error` and the number of the retry as `attempt`.
+			this.fire('tileretry', {
+				tile,
+				coords: model.coords,
+				attempt: attempts + 1,
+				delay,
+				error: e,
+			});
+			return;
+		}
+
+		const fallback = retry && fallbackToParent && this._renderAncestor(model);
+
+		if (fallback) {
+			done(e, fallback);
+			return;
+		}
+
 		if (errorUrl && tile.src !== errorUrl) {
 			tile.src = errorUrl;
 		}
 		done(e, tile);
 	}
 
+	// Replaces the tile by a canvas showing the part of the nearest loaded ancestor tile
+	// which covers it, and returns the canvas (if there is such an ancestor)
+	_renderAncestor(model: TileModel): HTMLCanvasElement | undefined {
+		const { x, y, z = 0 } = model.coords;
+
+		for (let levels = 1; levels <= z; levels++) {
+			const
+				// 2^levels, unless the CRS has a custom pyramid
+				scale = this._map!.getZoomScale(z, z - levels), // TODO: null safety
+				coords = new Point(Math.floor(x / scale + 1e-9), Math.floor(y / scale + 1e-9));
+
+			coords.z = z - levels;
+
+			const
+				ancestor = this._tiles[this._tileCoordsToKey(coords)],
+				source = ancestor?.loaded ? ancestor.el : undefined,
+				// Tiles which failed to load have no size, fallback tiles are canvases
+				width = source instanceof HTMLImageElement ? source.naturalWidth :
+					source instanceof HTMLCanvasElement ? source.width : 0,
+				height = source instanceof HTMLImageElement ? source.naturalHeight :
+					source instanceof HTMLCanvasElement ? source.height : 0;
+
+			if (!width || !height) { continue; }
+
+			const
+				canvas = document.createElement('canvas'),
+				size = this.getTileSize(),
+				cropWidth = width / scale,
+				cropHeight = height / scale;
+
+			canvas.width = size.x;
+			canvas.height = size.y;
+			canvas.getContext('2d')!.drawImage(
+				source as HTMLImageElement | HTMLCanvasElement,
+				(x - coords.x * scale) * cropWidth,
+				(y - coords.y * scale) * cropHeight,
+				cropWidth,
+				cropHeight,
+				0,
+				0,
+				size.x,
+				size.y,
+			);
+
+			this._initTile(canvas);
+			DomUtil.setPosition(canvas, DomUtil.getPosition(model.el));
+			model.el.replaceWith(canvas);
+			model.el = canvas;
+
+			// @event tilefallback: TileFallbackEvent
+			// Fired when a tile could not be loaded and the ancestor tile at `ancestorCoords`
+			// is shown in its place instead.
+			this.fire('tilefallback', {
+				tile: canvas,
+				coords: model.coords,
+				ancestorCoords: coords,
+			});
+
+			return canvas;
+		}
+
+		return undefined;
+	}
+
 	_onTileRemove(e: any): void {
 		e.tile.onload = null;
 	}
 
-	_getZoomForUrl(): number {
-		let zoom = this._tileZoom!; // TODO: null safety
+	_getZoomForUrl(zoom = this._tileZoom!): number { // TODO: null safety
 
 		const {maxZoom, zoomReverse, zoomOffset} = this.options;
 
@@ -242,21 +484,34 @@ export class TileLayer extends GridLayer {
 		let i, tile;
 		for (i in this._tiles) {
 			if (this._tiles[i].coords.z !== this._tileZoom) {
-				tile = this._tiles[i].el as HTMLImageElement;
+				tile = this._tiles[i].el;
+
+				// Fallback tiles are canvases, which are never loading
+				if (!(tile instanceof HTMLImageElement)) { continue; }
 
 				tile.onload = Util.falseFn;
 				tile.onerror = Util.falseFn;
 
-				if (!tile.complete) {
-					tile.src = Util.emptyImageUrl;
-					const coords = this._tiles[i].coords;
+				const request = this._requests.get(tile);
+
+				if (request || !tile.complete) {
+					if (request) {
+						this._requests.delete(tile);
+						request.abort();
+					} else {
+						tile.src = Util.emptyImageUrl;
+					}
+					const model = this._tiles[i];
 					tile.remove();
 					delete this._tiles[i];
+					if (!model.loaded) {
+						this._tileAborted(model);
+					}
 					// @event tileabort: TileEvent
 					// Fired when a tile was loading but is now not wanted.
 					this.fire('tileabort', {
 						tile,
-						coords
+						coords: model.coords
 					});
 				}
 			}
@@ -267,6 +522,13 @@ export class TileLayer extends GridLayer {
 		const tile = this._tiles[key];
 		if (!tile) { return; }
 
+		const request = this._requests.get(tile.el);
+
+		if (request) {
+			this._requests.delete(tile.el);
+			request.abort();
+		}
+
 		// Cancels any pending http requests associated with the tile
 		tile.el.setAttribute('src', Util.emptyImageUrl);
 
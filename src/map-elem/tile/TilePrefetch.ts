@@ -0,0 +1,229 @@
+import { Evented, Util } from '../../core';
+import { LatLng, type LatLngBounds } from '../../geog';
+import { Bounds, Point } from '../../geom';
+import type { TileLayer } from './TileLayer.js';
+import type { TileStore } from './TileStore.js';
+
+export interface TilePrefetchOptions {
+	/** Maximum number of tiles downloaded at the same time. 4 by default. */
+	concurrency: number;
+	/** Options of the `fetch()` requests for the tiles, e.g. headers. None by default. */
+	fetchOptions: RequestInit;
+}
+
+// The tiles of one zoom level to prefetch, with the range of x coordinates of one world
+// (if the CRS wraps) so that tiles past the antimeridian map to the stored ones
+interface TileRange {
+	zoom: number;
+	range: Bounds;
+	wrapX: [number, number] | undefined;
+}
+
+export interface TilePrefetchProgressEvent {
+	/** Number of tiles which were stored (or already were). */
+	loaded: number;
+	/** Number of tiles which could not be downloaded or stored. */
+	failed: number;
+	/** Total number of tiles to prefetch. */
+	total: number;
+}
+
+/**
+ * Downloads every tile of a `TileLayer` covering the given bounds, at every zoom level in
+ * the given range, into a `TileStore`, so that the area can be shown without a network
+ * connection. Tile URLs (which are the keys of the store) are computed with the layer's
+ * `getTileUrl`, so the layer must be added to a map first. Tiles which are already stored
+ * are not downloaded again. The prefetch starts upon being constructed.
+ *
+ * Keep in mind that the number of tiles grows fourfold with every zoom level, and that
+ * the store evicts the least recently used tiles beyond its size limit.
+ *
+ * ```js
+ * const prefetch = new TilePrefetch(layer, store, lineBounds, 12, 17);
+ *
+ * prefetch.on('progress', e => showProgress(e.loaded / e.total));
+ * cancelButton.onclick = () => prefetch.cancel();
+ * ```
+ *
+ * @event progress: TilePrefetchProgressEvent
+ * Fired every time a tile was stored or failed.
+ *
+ * @event load: TilePrefetchProgressEvent
+ * Fired once all tiles were handled (unless the prefetch was cancelled).
+ */
+export class TilePrefetch extends Evented {
+
+	declare options: TilePrefetchOptions;
+
+	_controller = new AbortController();
+	_queue: Iterator<Point>;
+	_active = 0;
+	_loaded = 0;
+	_failed = 0;
+	_total = 0;
+
+	constructor(
+		public _layer: TileLayer,
+		public _store: TileStore,
+		bounds: LatLngBounds,
+		minZoom: number,
+		maxZoom: number,
+		options?: Partial<TilePrefetchOptions>,
+	) {
+		super();
+
+		Util.setOptions(this, options, {
+			concurrency: 4,
+			fetchOptions: {},
+		});
+
+		if (!_layer._map) {
+			throw new Error('The layer must be added to a map to prefetch its tiles');
+		}
+
+		const ranges = this._tileRanges(bounds, minZoom, maxZoom);
+
+		for (const { range } of ranges) {
+			const size = range.getSize().add(new Point(1, 1));
+			this._total += Math.max(0, size.x) * Math.max(0, size.y);
+		}
+
+		this._queue = tileCoords(ranges);
+
+		// Start on the next tick, so that listeners can be added first
+		Promise.resolve().then(() => this._next());
+	}
+
+	// Stops downloading tiles. Tiles stored so far are kept.
+	cancel(): void {
+		this._controller.abort();
+	}
+
+	isCancelled(): boolean {
+		return this._controller.signal.aborted;
+	}
+
+	// Returns the ranges of tile coordinates to prefetch at every (native) zoom level
+	_tileRanges(bounds: LatLngBounds, minZoom: number, maxZoom: number): TileRange[] {
+		const
+			layer = this._layer,
+			map = layer._map!,
+			crs = map.options.crs,
+			tileSize = layer.getTileSize(),
+			ranges: TileRange[] = [];
+
+		let lastZoom: number | undefined;
+
+		for (let z = minZoom; z <= maxZoom; z++) {
+			// Levels beyond the native zoom levels of the layer reuse the same tiles
+			const zoom = layer._clampZoom(z);
+
+			if (zoom === lastZoom) { continue; }
+			lastZoom = zoom;
+
+			const range = layer._pxBoundsToTileRange(new Bounds(
+				map.project(bounds.getNorthWest(), zoom),
+				map.project(bounds.getSouthEast(), zoom),
+			));
+
+			// There are no tiles past the poles
+			const world = map.getPixelWorldBounds(zoom);
+
+			if (world) {
+				const worldRange = layer._pxBoundsToTileRange(world);
+
+				range.min.y = Math.max(range.min.y, worldRange.min.y);
+				range.max.y = Math.min(range.max.y, worldRange.max.y);
+			}
+
+			let wrapX: [number, number] | undefined;
+
+			if (crs.wrapLng && !layer.options.noWrap) {
+				wrapX = [
+					Math.floor(map.project(new LatLng(0, crs.wrapLng[0]), zoom).x / tileSize.x),
+					Math.ceil(map.project(new LatLng(0, crs.wrapLng[1]), zoom).x / tileSize.x),
+				];
+
+				// Bounds wider than the world would prefetch the same tiles again
+				range.max.x = Math.min(range.max.x, range.min.x + wrapX[1] - wrapX[0] - 1);
+			}
+
+			ranges.push({ zoom, range, wrapX });
+		}
+
+		return ranges;
+	}
+
+	_next(): void {
+		while (this._active < this.options.concurrency && !this.isCancelled()) {
+			const next = this._queue.next();
+
+			if (next.done) {
+				if (!this._active) {
+					this.fire('load', this._progress());
+				}
+				return;
+			}
+
+			this._active++;
+
+			this._prefetchTile(next.value).then(stored => {
+				this._active--;
+
+				if (this.isCancelled()) { return; }
+
+				if (stored) {
+					this._loaded++;
+				} else {
+					this._failed++;
+				}
+
+				this.fire('progress', this._progress());
+				this._next();
+			});
+		}
+	}
+
+	// Resolves to whether the tile ended up in the store
+	_prefetchTile(coords: Point): Promise<boolean> {
+		const
+			store = this._store,
+			url = this._layer.getTileUrl(coords),
+			signal = this._controller.signal;
+
+		return store.has(url)
+			.then(stored => stored || fetch(url, { ...this.options.fetchOptions, signal })
+				.then(response => {
+					if (!response.ok) {
+						throw new Error(`Tile request failed with status ${response.status}`);
+					}
+					return response.blob();
+				})
+				.then(blob => store.put(url, blob))
+				.then(() => true))
+			.catch(() => false);
+	}
+
+	_progress(): TilePrefetchProgressEvent {
+		return {
+			loaded: this._loaded,
+			failed: this._failed,
+			total: this._total,
+		};
+	}
+
+}
+
+// Lists the tile coordinates of all ranges lazily, as there may be a great many of them
+function* tileCoords(ranges: TileRange[]): Generator<Point> {
+	for (const { zoom, range, wrapX } of ranges) {
+		for (let y = range.min.y; y <= range.max.y; y++) {
+			for (let x = range.min.x; x <= range.max.x; x++) {
+				const coords = new Point(wrapX ? Util.wrapNum(x, wrapX) : x, y);
+
+				coords.z = zoom;
+				yield coords;
+			}
+		}
+	}
+}
@@ -0,0 +1,182 @@
+import { Util, type Disposable } from '../../core';
+import type { Point } from '../../geom';
+import type { Map } from '../../map';
+import type { GridLayer } from './GridLayer.js';
+
+export interface TileSchedulerOptions {
+	/**
+	 * Maximum number of tile requests in flight at the same time, across all the layers of
+	 * the map. 6 by default, which is what browsers allow per host over HTTP/1.1.
+	 */
+	maxRequests: number;
+}
+
+/** A tile request queued with a `TileScheduler`. */
+export interface TileRequest {
+	/** Resolves to the tile data, or rejects if the request failed or was aborted. */
+	promise: Promise<Blob>;
+	/** Aborts the request, whether it is still queued or already in flight. */
+	abort(): void;
+}
+
+interface QueuedRequest {
+	layer: GridLayer;
+	coords: Point;
+	url: string;
+	init: RequestInit;
+	controller: AbortController;
+	resolve: (blob: Blob) => void;
+	reject: (err: unknown) => void;
+}
+
+const schedulers = new WeakMap<Map, TileScheduler>();
+
+/**
+ * Loads tiles with `fetch()` for all the tile layers of a map through a single queue,
+ * with a limit on the number of requests in flight. Whenever a request slot frees up,
+ * the queued tile of the zoom level closest to the map zoom, and then the one closest to
+ * the center of the view, goes first. Aborted requests are really cancelled (or never
+ * sent), unlike `<img>` tiles which can only be stopped by changing their `src`.
+ *
+ * Layers get the scheduler of their map with `TileScheduler.forMap()`, which creates one
+ * with the default options if needed. To change the options, create the scheduler
+ * yourself before adding layers to the map (a map can only have one scheduler):
+ *
+ * ```js
+ * new TileScheduler(map, { maxRequests: 12 });
+ * ```
+ */
+export class TileScheduler implements Disposable {
+
+	declare options: TileSchedulerOptions;
+
+	_queue: QueuedRequest[] = [];
+	_inFlight = new Set<QueuedRequest>();
+
+	constructor(
+		public _map: Map,
+		options?: Partial<TileSchedulerOptions>,
+	) {
+		Util.setOptions(this, options, {
+			maxRequests: 6,
+		});
+
+		if (schedulers.has(_map)) {
+			throw new Error('The map already has a tile scheduler');
+		}
+
+		schedulers.set(_map, this);
+
+		_map.on('dispose', this.dispose, this, true);
+	}
+
+	// Returns the scheduler shared by the tile layers of the map, creating it if needed.
+	static forMap(map: Map): TileScheduler {
+		return schedulers.get(map) || new TileScheduler(map);
+	}
+
+	// Queues a request for the tile of the layer at the given coordinates.
+	request(layer: GridLayer, coords: Point, url: string, init: RequestInit = {}): TileRequest {
+		const controller = new AbortController();
+
+		let request!: QueuedRequest;
+
+		const promise = new Promise<Blob>((resolve, reject) => {
+			request = { layer, coords, url, init, controller, resolve, reject };
+		});
+
+		controller.signal.addEventListener('abort', () => {
+			const index = this._queue.indexOf(request);
+
+			if (index >= 0) {
+				this._queue.splice(index, 1);
+				request.reject(controller.signal.reason);
+			}
+		});
+
+		this._queue.push(request);
+
+		// Let the layer queue all the tiles of an update before picking the first one
+		Promise.resolve().then(() => this._next());
+
+		return {
+			promise,
+			abort: () => controller.abort(),
+		};
+	}
+
+	_next(): void {
+		while (this._inFlight.size < this.options.maxRequests && this._queue.length) {
+			const request = this._dequeue();
+
+			this._inFlight.add(request);
+
+			fetch(request.url, { ...request.init, signal: request.controller.signal })
+				.then(response => {
+					if (!response.ok) {
+						throw new Error(`Tile request failed with status ${response.status}`);
+					}
+					return response.blob();
+				})
+				.then(request.resolve, request.reject)
+				.finally(() => {
+					this._inFlight.delete(request);
+					this._next();
+				});
+		}
+	}
+
+	// Removes and returns the queued request with the highest priority
+	_dequeue(): QueuedRequest {
+		const queue = this._queue;
+
+		let
+			best = 0,
+			bestPriority = this._priority(queue[0]);
+
+		for (let i = 1; i < queue.length; i++) {
+			const priority = this._priority(queue[i]);
+
+			if (priority[0] < bestPriority[0] || (priority[0] === bestPriority[0] && priority[1] < bestPriority[1])) {
+				best = i;
+				bestPriority = priority;
+			}
+		}
+
+		return queue.splice(best, 1)[0];
+	}
+
+	// Returns how far the tile is from the zoom level of the map, and how far (in tiles) it
+	// is from the center of the view, in that order of importance
+	_priority({ layer, coords }: QueuedRequest): [number, number] {
+		const
+			map = this._map,
+			zoom = coords.z!, // TODO: null safety
+			tileSize = layer.getTileSize(),
+			center = map.project(map.getCenter(), zoom).unscaleBy(tileSize),
+			world = map.getPixelWorldBounds(zoom),
+			dy = Math.abs(center.y - coords.y - 0.5);
+
+		let dx = Math.abs(center.x - coords.x - 0.5);
+
+		// Layers pass wrapped tile coordinates, so the tile may be closer across the antimeridian
+		if (world && map.options.crs.wrapLng) {
+			const worldTiles = world.getSize().x / tileSize.x;
+			dx = Math.min(dx % worldTiles, worldTiles - dx % worldTiles);
+		}
+
+		return [Math.abs(zoom - Math.round(map._zoom)), Math.hypot(dx, dy)];
+	}
+
+	// Aborts all requests, and lets the map get a new scheduler. This happens automatically
+	// when the map is disposed of.
+	dispose(): void {
+		for (const request of [...this._queue, ...this._inFlight]) {
+			request.controller.abort();
+		}
+
+		this._map.off('dispose', this.dispose, this);
+		schedulers.delete(this._map);
+	}
+
+}
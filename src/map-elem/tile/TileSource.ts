@@ -0,0 +1,33 @@
+import type { Point } from '../../geom';
+import type { TileRequest } from './TileScheduler.js';
+
+/**
+ * Provides the data of tiles from somewhere other than one URL per tile, e.g. a `PMTiles`
+ * archive. Pass it to the `source` option of `TileLayer` or `VectorTileLayer`.
+ */
+export interface TileSource {
+	/**
+	 * Resolves to the data of the tile at the given coordinates, or to `undefined` if the
+	 * source has no such tile (which then shows as empty). Should stop loading the tile
+	 * when `signal` is aborted.
+	 */
+	getTile(coords: Point, signal: AbortSignal): Promise<Blob | undefined>;
+}
+
+/**
+ * Requests a tile from a source, like `TileScheduler.request()` does from a URL. Tiles the
+ * source doesn't have resolve to an empty blob.
+ */
+export function requestFromSource(source: TileSource, coords: Point): TileRequest {
+	const controller = new AbortController();
+
+	return {
+		promise: new Promise<Blob>((resolve, reject) => {
+			// Sources might not stop on abort, but the tile must not be used anymore
+			controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
+
+			source.getTile(coords, controller.signal).then(blob => resolve(blob || new Blob()), reject);
+		}),
+		abort: () => controller.abort(),
+	};
+}
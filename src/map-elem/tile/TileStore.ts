@@ -0,0 +1,211 @@
+import { Util } from '../../core';
+
+export interface TileStoreOptions {
+	/**
+	 * Maximum total size of the stored tiles, in bytes. When storing a tile would exceed
+	 * it, the least recently used tiles are evicted. 50 MiB by default.
+	 */
+	maxSize: number;
+}
+
+// Metadata of a stored tile, kept apart from the tile data so that the size of the store
+// and the eviction order can be worked out without reading any images
+interface TileEntry {
+	url: string;
+	size: number;
+	accessed: number;
+}
+
+const
+	TILES = 'tiles',
+	ENTRIES = 'entries';
+
+/**
+ * Stores tile images in [IndexedDB](https://developer.mozilla.org/en-US/docs/Web/API/IndexedDB_API)
+ * so that they can be shown without a network connection. Tiles are keyed by their URL,
+ * and the least recently used tiles are evicted when the store grows past its size limit.
+ * Pass the store to the `store` option of a `TileLayer` to show stored tiles before
+ * falling back to the network, and fill it with `TilePrefetch`.
+ *
+ * ```js
+ * TileStore.open('subway-tiles', { maxSize: 200 * 1024 * 1024 }).then(store => {
+ *     map.addLayer(new TileLayer(url, { store }));
+ * });
+ * ```
+ */
+export class TileStore {
+
+	declare options: TileStoreOptions;
+
+	// Each write is chained to the previous one, so that the size is always up to date
+	// when deciding what to evict
+	_writes = Promise.resolve();
+
+	constructor(
+		public _db: IDBDatabase,
+		public _size: number,
+		options?: Partial<TileStoreOptions>,
+	) {
+		Util.setOptions(this, options, {
+			maxSize: 50 * 1024 * 1024,
+		});
+	}
+
+	// Opens (or creates) the store with the given database name.
+	static open(name: string, options?: Partial<TileStoreOptions>): Promise<TileStore> {
+		const req = indexedDB.open(name, 1);
+
+		req.onupgradeneeded = () => {
+			const db = req.result;
+
+			db.createObjectStore(TILES);
+			db.createObjectStore(ENTRIES, { keyPath: 'url' }).createIndex('accessed', 'accessed');
+		};
+
+		return promisify(req).then(db => {
+			const entries = db.transaction(ENTRIES).objectStore(ENTRIES).getAll();
+
+			return promisify(entries).then((all: TileEntry[]) => new TileStore(
+				db,
+				all.reduce((size, entry) => size + entry.size, 0),
+				options,
+			));
+		});
+	}
+
+	// Returns the total size of the stored tiles, in bytes.
+	getSize(): number {
+		return this._size;
+	}
+
+	// Returns the stored tile image for the URL, if any, and marks it as recently used.
+	get(url: string): Promise<Blob | undefined> {
+		const tx = this._db.transaction([TILES, ENTRIES], 'readwrite');
+
+		return promisify<TileEntry | undefined>(tx.objectStore(ENTRIES).get(url)).then(entry => {
+			if (!entry) { return undefined; }
+
+			entry.accessed = Date.now();
+			tx.objectStore(ENTRIES).put(entry);
+
+			return promisify<Blob | undefined>(tx.objectStore(TILES).get(url));
+		});
+	}
+
+	// Returns whether a tile image is stored for the URL, without marking it as used.
+	has(url: string): Promise<boolean> {
+		const req = this._db.transaction(ENTRIES).objectStore(ENTRIES).count(url);
+		return promisify(req).then(count => count > 0);
+	}
+
+	// Stores a tile image for the URL, evicting the least recently used tiles if needed.
+	// Images larger than the size limit are not stored.
+	put(url: string, blob: Blob): Promise<void> {
+		return this._write(() => {
+			if (blob.size > this.options.maxSize) { return Promise.resolve(); }
+
+			return this._remove(url)
+				.then(() => this._evict(this.options.maxSize - blob.size))
+				.then(() => {
+					const
+						tx = this._db.transaction([TILES, ENTRIES], 'readwrite'),
+						entry: TileEntry = { url, size: blob.size, accessed: Date.now() };
+
+					tx.objectStore(TILES).put(blob, url);
+					tx.objectStore(ENTRIES).put(entry);
+
+					return complete(tx).then(() => { this._size += blob.size; });
+				});
+		});
+	}
+
+	// Removes the stored tile image for the URL, if any.
+	delete(url: string): Promise<void> {
+		return this._write(() => this._remove(url));
+	}
+
+	// Removes all stored tiles.
+	clear(): Promise<void> {
+		return this._write(() => {
+			const tx = this._db.transaction([TILES, ENTRIES], 'readwrite');
+
+			tx.objectStore(TILES).clear();
+			tx.objectStore(ENTRIES).clear();
+
+			return complete(tx).then(() => { this._size = 0; });
+		});
+	}
+
+	// Closes the database connection. The store cannot be used afterwards.
+	close(): void {
+		this._db.close();
+	}
+
+	_write(write: () => Promise<void>): Promise<void> {
+		const result = this._writes.then(write);
+
+		// A failed write must not fail all the writes after it
+		this._writes = result.catch(() => {});
+
+		return result;
+	}
+
+	_remove(url: string): Promise<void> {
+		const tx = this._db.transaction([TILES, ENTRIES], 'readwrite');
+
+		return promisify<TileEntry | undefined>(tx.objectStore(ENTRIES).get(url)).then(entry => {
+			if (!entry) { return; }
+
+			tx.objectStore(TILES).delete(url);
+			tx.objectStore(ENTRIES).delete(url);
+
+			return complete(tx).then(() => { this._size -= entry.size; });
+		});
+	}
+
+	// Removes the least recently used tiles until the total size is at most `size`
+	_evict(size: number): Promise<void> {
+		if (this._size <= size) { return Promise.resolve(); }
+
+		return new Promise((resolve, reject) => {
+			const
+				tx = this._db.transaction([TILES, ENTRIES], 'readwrite'),
+				cursorReq = tx.objectStore(ENTRIES).index('accessed').openCursor();
+
+			let remaining = this._size;
+
+			cursorReq.onsuccess = () => {
+				const cursor = cursorReq.result;
+
+				if (!cursor || remaining <= size) { return; }
+
+				const entry: TileEntry = cursor.value;
+
+				tx.objectStore(TILES).delete(entry.url);
+				cursor.delete();
+				remaining -= entry.size;
+				cursor.continue();
+			};
+
+			complete(tx).then(() => {
+				this._size = remaining;
+				resolve();
+			}, reject);
+		});
+	}
+
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		req.onsuccess = () => resolve(req.result);
+		req.onerror = () => reject(req.error);
+	});
+}
+
+function complete(tx: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = tx.onabort = () => reject(tx.error);
+	});
+}
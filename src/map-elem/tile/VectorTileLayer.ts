@@ -0,0 +1,447 @@
+import { Browser, Util, type HandlerMap } from '../../core';
+import type { LatLng } from '../../geog';
+import { GeomUtil, type Point } from '../../geom';
+import type { Map } from '../../map';
+import { GridLayer, type DoneFn, type GridLayerOptions } from './GridLayer.js';
+import { TileScheduler, type TileRequest } from './TileScheduler.js';
+import { requestFromSource, type TileSource } from './TileSource.js';
+import { decodeVectorTile, type VectorTile, type VectorTileFeature } from './vector-tile-decoder.js';
+
+/**
+ * How a vector tile feature is drawn. Unset properties take the same defaults as `Path`
+ * options, except that points and polygons are filled by default.
+ */
+export interface VectorTileStyle {
+	stroke: boolean;
+	color: string;
+	weight: number;
+	opacity: number;
+	lineCap: CanvasLineCap;
+	lineJoin: CanvasLineJoin;
+	dashArray: number[] | undefined;
+	fill: boolean;
+	fillColor: string | undefined;
+	fillOpacity: number;
+	/** Radius of point features, in pixels. */
+	radius: number;
+}
+
+/**
+ * Returns the style of a feature of the named layer of a vector tile (e.g. based on its
+ * `properties`), or `undefined` to hide the feature.
+ */
+export type VectorTileStyleFn = (
+	layerName: string,
+	feature: VectorTileFeature,
+	zoom: number,
+) => Partial<VectorTileStyle> | undefined;
+
+export interface VectorTileLayerOptions extends GridLayerOptions {
+	/** Styles the features of the tiles. Draws all features with the default style by default. */
+	style: VectorTileStyleFn;
+	/**
+	 * Whether features fire `click`, `mouseover` and `mouseout` events (and get a pointer
+	 * cursor). True by default.
+	 */
+	interactive: boolean;
+	/** Subdomains of the tile service, as in `TileLayer`. 'abc' by default. */
+	subdomains: string | string[];
+	/** Options of the `fetch()` requests for the tiles, e.g. headers. None by default. */
+	fetchOptions: RequestInit;
+	/**
+	 * Where to get the tiles from instead of the URL template, e.g. a `PMTiles` archive.
+	 * Undefined by default.
+	 */
+	source: TileSource | undefined;
+}
+
+const defaultStyle: VectorTileStyle = {
+	stroke: true,
+	color: '#3388ff',
+	weight: 3,
+	opacity: 1,
+	lineCap: 'round',
+	lineJoin: 'round',
+	dashArray: undefined,
+	fill: true,
+	fillColor: undefined,
+	fillOpacity: 0.2,
+	radius: 4,
+};
+
+// A feature as drawn on a tile, kept around for hit-testing
+interface DrawnFeature {
+	layerName: string;
+	feature: VectorTileFeature;
+	style: VectorTileStyle;
+	// Tile pixels per feature coordinate
+	scale: number;
+}
+
+export interface VectorTileFeatureEvent {
+	layerName: string;
+	feature: VectorTileFeature;
+	properties: VectorTileFeature['properties'];
+	latlng: LatLng;
+}
+
+/**
+ * Loads tiles in the [Mapbox Vector Tile](https://github.com/mapbox/vector-tile-spec)
+ * format and draws them into `<canvas>` tiles, so that the data can be styled on the
+ * client. The URL template works like the one of `TileLayer`. Tiles are loaded through
+ * the `TileScheduler` of the map. Tiles which failed to load or decode stay empty and
+ * fire `tileerror`.
+ *
+ * ```js
+ * map.addLayer(new VectorTileLayer('https://tiles.example.com/{z}/{x}/{y}.pbf', {
+ *     style: (layerName, feature) => layerName === 'water'
+ *         ? { color: '#68b', fillOpacity: 1 }
+ *         : layerName === 'roads' ? { color: '#fff', weight: 2 } : undefined,
+ * }));
+ * ```
+ *
+ * @event click: VectorTileFeatureEvent
+ * Fired when the user clicks a feature (the topmost one, if features overlap).
+ *
+ * @event mouseover: VectorTileFeatureEvent
+ * Fired when the mouse enters a feature.
+ *
+ * @event mouseout: VectorTileFeatureEvent
+ * Fired when the mouse leaves a feature.
+ */
+export class VectorTileLayer extends GridLayer {
+
+	declare options: VectorTileLayerOptions;
+
+	_drawn = new WeakMap<HTMLElement, DrawnFeature[]>();
+	_decoded = new WeakMap<HTMLElement, VectorTile>();
+	_requests = new WeakMap<HTMLElement, TileRequest>();
+	_hovered: DrawnFeature | undefined;
+
+	constructor(
+		public _url: string,
+		options?: Partial<VectorTileLayerOptions>,
+	) {
+		super(options);
+
+		Util.setOptions(this, options, {
+			style: () => ({}),
+			interactive: true,
+			subdomains: 'abc',
+			fetchOptions: {},
+			source: undefined,
+		});
+	}
+
+	onRemove(map: Map): void {
+		this._setHovered(undefined);
+		super.onRemove(map);
+	}
+
+	getEvents(): HandlerMap {
+		const events = super.getEvents();
+
+		if (this.options.interactive) {
+			events.click = this._onClick;
+			events.mousemove = this._onMouseMove;
+			events.mouseout = this._onMouseOut;
+		}
+
+		return events;
+	}
+
+	// Replaces the style function and redraws the loaded tiles with it, without fetching them again.
+	setStyle(style: VectorTileStyleFn): this {
+		this.options.style = style;
+
+		for (const model of Object.values(this._tiles)) {
+			const tile = this._decoded.get(model.el);
+
+			if (tile) {
+				this._drawTile(model.el as HTMLCanvasElement, tile, model.coords.z!); // TODO: null safety
+
+				if (this.options.tileFilter) {
+					this._filterTile(model);
+				}
+			}
+		}
+
+		return this;
+	}
+
+	createTile(coords: Point, done: DoneFn = Util.falseFn): HTMLCanvasElement {
+		const
+			canvas = document.createElement('canvas'),
+			size = this.getTileSize(),
+			zoom = coords.z!, // TODO: null safety
+			source = this.options.source,
+			request = source ? requestFromSource(source, coords) : TileScheduler.forMap(this._map!) // TODO: null safety
+				.request(this, coords, this.getTileUrl(coords), this.options.fetchOptions);
+
+		canvas.width = size.x * devicePixelRatio;
+		canvas.height = size.y * devicePixelRatio;
+
+		this._requests.set(canvas, request);
+
+		request.promise
+			.then(blob => blob.arrayBuffer())
+			.then(data => {
+				const tile = decodeVectorTile(data);
+
+				this._decoded.set(canvas, tile);
+				this._drawTile(canvas, tile, zoom);
+			})
+			.then(() => done(null, canvas), err => {
+				// Aborted tiles were removed already
+				if (this._requests.has(canvas)) {
+					done(err, canvas);
+				}
+			})
+			.finally(() => this._requests.delete(canvas));
+
+		return canvas;
+	}
+
+	// Returns the URL of a tile, filling in `{s}`, `{x}`, `{y}`, `{z}` and other options
+	// in the URL template like `TileLayer` does.
+	getTileUrl(coords: Point): string {
+		const
+			subdomains = this.options.subdomains,
+			data: Dict<any> = {
+				s: subdomains[Math.abs(coords.x + coords.y) % subdomains.length],
+				x: coords.x,
+				y: coords.y,
+				z: coords.z,
+			};
+
+		if (this._map && !this._map.options.crs.infinite) {
+			data['-y'] = this._globalTileRange!.max.y - coords.y; // TODO: null safety
+		}
+
+		return Util.template(this._url, Object.assign(data, this.options));
+	}
+
+	_removeTile(key: string): void {
+		const tile = this._tiles[key];
+
+		if (tile) {
+			this._requests.get(tile.el)?.abort();
+			this._requests.delete(tile.el);
+
+			if (this._hovered && this._drawn.get(tile.el)?.includes(this._hovered)) {
+				this._setHovered(undefined);
+			}
+		}
+
+		super._removeTile(key);
+	}
+
+	// Stops loading the tiles of other zoom levels
+	_abortLoading(): void {
+		for (const [key, tile] of Object.entries(this._tiles)) {
+			if (tile.coords.z !== this._tileZoom && this._requests.has(tile.el)) {
+				const coords = tile.coords;
+
+				this._removeTile(key);
+
+				// @event tileabort: TileEvent
+				// Fired when a tile was loading but is now not wanted.
+				this.fire('tileabort', {
+					tile: tile.el,
+					coords,
+				});
+			}
+		}
+	}
+
+	_drawTile(canvas: HTMLCanvasElement, tile: VectorTile, zoom: number): void {
+		const
+			ctx = canvas.getContext('2d')!,
+			drawn: DrawnFeature[] = [];
+
+		ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+		for (const { name, extent, features } of tile.layers) {
+			const scale = this.getTileSize().x / extent;
+
+			for (const feature of features) {
+				const style = this.options.style(name, feature, zoom);
+
+				if (style) {
+					const item = { layerName: name, feature, style: { ...defaultStyle, ...style }, scale };
+
+					drawFeature(ctx, item, devicePixelRatio);
+					drawn.push(item);
+				}
+			}
+		}
+
+		this._drawn.set(canvas, drawn);
+	}
+
+	// Returns the topmost feature under the event location, if any
+	_hitTest(latlng: LatLng): DrawnFeature | undefined {
+		const map = this._map, zoom = this._tileZoom;
+
+		if (!map || zoom === undefined) { return undefined; }
+
+		const
+			size = this.getTileSize(),
+			pixel = map.project(latlng, zoom),
+			coords = pixel.unscaleBy(size).floor();
+
+		coords.z = zoom;
+
+		const tile = this._tiles[this._tileCoordsToKey(coords)];
+		const drawn = tile && this._drawn.get(tile.el);
+
+		if (!drawn) { return undefined; }
+
+		const
+			point = pixel.subtract(coords.scaleBy(size)),
+			// Tiles are scaled while zooming between tile zoom levels, but the tolerance
+			// should stay the same on the screen
+			pxPerScreenPx = map.getZoomScale(zoom),
+			tolerance = (Browser.touch ? 10 : 3) * pxPerScreenPx;
+
+		for (let i = drawn.length - 1; i >= 0; i--) {
+			if (hitsFeature(drawn[i], point, tolerance)) {
+				return drawn[i];
+			}
+		}
+
+		return undefined;
+	}
+
+	_onClick(e: { latlng: LatLng; originalEvent: MouseEvent }): void {
+		const hit = this._hitTest(e.latlng);
+
+		if (hit) {
+			this._fireFeatureEvent('click', hit, e);
+		}
+	}
+
+	_onMouseMove(e: { latlng: LatLng; originalEvent: MouseEvent }): void {
+		this._setHovered(this._hitTest(e.latlng), e);
+	}
+
+	_onMouseOut(e: { latlng: LatLng; originalEvent: MouseEvent }): void {
+		this._setHovered(undefined, e);
+	}
+
+	_setHovered(hit: DrawnFeature | undefined, e?: { latlng: LatLng; originalEvent: MouseEvent }): void {
+		const previous = this._hovered;
+
+		if (hit?.feature === previous?.feature) { return; }
+
+		this._hovered = hit;
+		this._map?._container.classList.toggle('leaflet-vector-tile-hover', !!hit);
+
+		if (previous && e) {
+			this._fireFeatureEvent('mouseout', previous, e);
+		}
+		if (hit && e) {
+			this._fireFeatureEvent('mouseover', hit, e);
+		}
+	}
+
+	_fireFeatureEvent(type: string, hit: DrawnFeature, e: { latlng: LatLng; originalEvent: MouseEvent }): void {
+		this.fire(type, {
+			layerName: hit.layerName,
+			feature: hit.feature,
+			properties: hit.feature.properties,
+			latlng: e.latlng,
+			originalEvent: e.originalEvent,
+		}, true);
+	}
+
+}
+
+function drawFeature(ctx: CanvasRenderingContext2D, drawn: DrawnFeature, pixelRatio: number): void {
+	const
+		{ feature, style } = drawn,
+		scale = drawn.scale * pixelRatio;
+
+	ctx.beginPath();
+
+	for (const part of feature.geometry) {
+		if (feature.type === 'Point') {
+			for (const p of part) {
+				ctx.moveTo(p.x * scale + style.radius * pixelRatio, p.y * scale);
+				ctx.arc(p.x * scale, p.y * scale, style.radius * pixelRatio, 0, Math.PI * 2);
+			}
+			continue;
+		}
+
+		part.forEach((p, i) => i ? ctx.lineTo(p.x * scale, p.y * scale) : ctx.moveTo(p.x * scale, p.y * scale));
+
+		if (feature.type === 'Polygon') {
+			ctx.closePath();
+		}
+	}
+
+	if (style.fill && feature.type !== 'LineString') {
+		ctx.globalAlpha = style.fillOpacity;
+		ctx.fillStyle = style.fillColor || style.color;
+		ctx.fill('evenodd');
+	}
+
+	if (style.stroke && style.weight !== 0) {
+		ctx.globalAlpha = style.opacity;
+		ctx.lineWidth = style.weight * pixelRatio;
+		ctx.strokeStyle = style.color;
+		ctx.lineCap = style.lineCap;
+		ctx.lineJoin = style.lineJoin;
+		ctx.setLineDash((style.dashArray || []).map(d => d * pixelRatio));
+		ctx.stroke();
+	}
+
+	ctx.globalAlpha = 1;
+}
+
+// Whether a point (in tile pixels) is on a drawn feature, within the given tolerance. Like
+// the features, their radius and weight are in tile pixels.
+function hitsFeature(drawn: DrawnFeature, point: Point, tolerance: number): boolean {
+	const { feature, style, scale } = drawn;
+
+	switch (feature.type) {
+		case 'Point': {
+			const radius = style.radius + tolerance;
+			return feature.geometry.some(part => part.some(p => p.multiplyBy(scale).distanceTo(point) <= radius));
+		}
+		case 'LineString':
+		case 'Polygon': {
+			const
+				closed = feature.type === 'Polygon',
+				width = (style.stroke ? style.weight / 2 : 0) + tolerance;
+
+			let inside = false;
+
+			for (const part of feature.geometry) {
+				const len = part.length;
+
+				for (let i = 0, j = len - 1; i < len; j = i++) {
+					if (!closed && i === 0) { continue; }
+
+					const
+						p1 = part[i].multiplyBy(scale),
+						p2 = part[j].multiplyBy(scale);
+
+					if (GeomUtil.pointToSegmentDistance(point, p1, p2) <= width) {
+						return true;
+					}
+
+					// Even-odd ray casting, which also takes care of holes
+					if (closed && ((p1.y > point.y) !== (p2.y > point.y)) &&
+						(point.x < (p2.x - p1.x) * (point.y - p1.y) / (p2.y - p1.y) + p1.x)) {
+						inside = !inside;
+					}
+				}
+			}
+
+			return inside && style.fill;
+		}
+		default:
+			return false;
+	}
+}
@@ -1,3 +1,18 @@
 export * from './GridLayer.js';
+export * from './ImagePyramidLayer.js';
+export * from './TileLayer.DZI.js';
+export * from './TileLayer.IIIF.js';
 export * from './TileLayer.WMS.js';
+export * from './TileLayer.WMTS.js';
 export * from './TileLayer.js';
+export * from './VectorTileLayer.js';
+export * from './vector-tile-decoder.js';
+export * from './TilePrefetch.js';
+export * from './TileStore.js';
+export * from './TileSource.js';
+export * from './PMTiles.js';
+export * from './TileScheduler.js';
+export * as TileFilters from './tile-filters.js';
+export type { PixelTransform, TileFilter } from './tile-filters.js';
+export * from './tilejson.js';
+export * from './wmts-capabilities.js';
@@ -0,0 +1,103 @@
+/**
+ * Post-processes the pixels of a tile in place, see the `tileFilter` option of `GridLayer`.
+ * The image data holds the red, green, blue and alpha values (from 0 to 255) of every pixel.
+ */
+export type TileFilter = (data: ImageData) => void;
+
+/**
+ * Returns the new red, green, blue and alpha values (from 0 to 255) of a pixel. Values out
+ * of range are clamped.
+ */
+export type PixelTransform = (r: number, g: number, b: number, a: number) => [number, number, number, number];
+
+/**
+ * Turns the tiles to shades of gray. An `amount` between 0 and 1 partially removes the colors.
+ */
+export function grayscale(amount = 1): TileFilter {
+	return pixels((r, g, b, a) => {
+		// Relative luminance weights of sRGB
+		const gray = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+		return [
+			r + (gray - r) * amount,
+			g + (gray - g) * amount,
+			b + (gray - b) * amount,
+			a,
+		];
+	});
+}
+
+/**
+ * Inverts the colors of the tiles (e.g. for a dark basemap from a light one). An `amount`
+ * between 0 and 1 partially inverts them, 0.5 being plain gray.
+ */
+export function invert(amount = 1): TileFilter {
+	return pixels((r, g, b, a) => [
+		r + (255 - 2 * r) * amount,
+		g + (255 - 2 * g) * amount,
+		b + (255 - 2 * b) * amount,
+		a,
+	]);
+}
+
+/**
+ * Multiplies the color values of the tiles by `factor`, e.g. 0.6 to dim them.
+ */
+export function brightness(factor: number): TileFilter {
+	return pixels((r, g, b, a) => [r * factor, g * factor, b * factor, a]);
+}
+
+/**
+ * Blends the colors of the tiles with the given color (as `[r, g, b]` or `'#rrggbb'`),
+ * keeping their brightness. An `amount` of 1 recolors the tiles entirely in shades of
+ * the given color.
+ */
+export function tint(color: [number, number, number] | string, amount = 0.5): TileFilter {
+	const [tr, tg, tb] = typeof color === 'string' ? parseHexColor(color) : color;
+
+	return pixels((r, g, b, a) => {
+		// Scale the tint color by the luminance of the pixel, so that details stay visible
+		const gray = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+
+		return [
+			r + (tr * gray - r) * amount,
+			g + (tg * gray - g) * amount,
+			b + (tb * gray - b) * amount,
+			a,
+		];
+	});
+}
+
+/**
+ * Creates a filter which transforms every pixel of the tiles with the given function.
+ *
+ * ```js
+ * // Shows only the red channel of a data layer, as shades of red
+ * const redOnly = TileFilters.pixels((r, g, b, a) => [r, 0, 0, a]);
+ * ```
+ */
+export function pixels(transform: PixelTransform): TileFilter {
+	return data => {
+		const pixelData = data.data;
+
+		for (let i = 0; i < pixelData.length; i += 4) {
+			const rgba = transform(pixelData[i], pixelData[i + 1], pixelData[i + 2], pixelData[i + 3]);
+
+			// Uint8ClampedArray rounds and clamps the values
+			pixelData[i] = rgba[0];
+			pixelData[i + 1] = rgba[1];
+			pixelData[i + 2] = rgba[2];
+			pixelData[i + 3] = rgba[3];
+		}
+	};
+}
+
+function parseHexColor(color: string): [number, number, number] {
+	const match = /^#?([\da-f]{2})([\da-f]{2})([\da-f]{2})$/i.exec(color);
+
+	if (!match) {
+		throw new Error(`Invalid color '${color}', expected '#rrggbb'`);
+	}
+
+	return [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)];
+}
@@ -0,0 +1,148 @@
+import { LatLng, LatLngBounds } from '../../geog';
+import type { TileLayerOptions } from './TileLayer.js';
+
+/**
+ * A [TileJSON](https://github.com/mapbox/tilejson-spec) document describing a tile set.
+ * Only the properties used to configure tile layers are listed.
+ */
+export interface TileJSON {
+	tilejson: string;
+	/** URL templates of the tiles, with `{z}`, `{x}` and `{y}` variables. */
+	tiles: string[];
+	name?: string;
+	description?: string;
+	attribution?: string;
+	/** Whether the y coordinate of tiles goes down ('xyz') or up ('tms'). 'xyz' by default. */
+	scheme?: 'xyz' | 'tms';
+	minzoom?: number;
+	maxzoom?: number;
+	/** Bounds of the tiles as `[west, south, east, north]`, in degrees. */
+	bounds?: [number, number, number, number];
+	/** Suggested initial view as `[longitude, latitude, zoom]`. */
+	center?: [number, number, number];
+}
+
+/**
+ * Works out the URL template and the options of a `TileLayer` for a TileJSON document:
+ *
+ * - several `tiles` URLs which only differ in one place (e.g. `a.tiles.com`, `b.tiles.com`)
+ *   become a single template with the `{s}` variable and the `subdomains` option, otherwise
+ *   the first URL is used
+ * - `minzoom` sets `minZoom`, and `maxzoom` sets `maxNativeZoom` so that the tiles of the
+ *   last level are scaled up beyond it (up to `maxZoom`, which is at least `maxzoom`)
+ * - `bounds`, `attribution` and `scheme` set `bounds`, `attribution` and `tms`
+ *
+ * Throws an error if the document has no tile URLs.
+ */
+export function tileJSONOptions(tileJSON: TileJSON): { url: string, options: Partial<TileLayerOptions> } {
+	const
+		{ tiles, minzoom, maxzoom, bounds, attribution, scheme } = tileJSON,
+		options: Partial<TileLayerOptions> = {};
+
+	if (!tiles?.length) {
+		throw new Error('The TileJSON document has no tile URLs');
+	}
+
+	let url = tiles[0];
+
+	if (tiles.length > 1) {
+		const subdomains = splitSubdomains(tiles);
+
+		if (subdomains) {
+			url = subdomains.url;
+			options.subdomains = subdomains.subdomains;
+		}
+	}
+
+	if (minzoom !== undefined) {
+		options.minZoom = minzoom;
+	}
+
+	if (maxzoom !== undefined) {
+		options.maxNativeZoom = maxzoom;
+		options.maxZoom = Math.max(18, maxzoom);
+	}
+
+	if (bounds) {
+		options.bounds = new LatLngBounds(
+			new LatLng(bounds[1], bounds[0]),
+			new LatLng(bounds[3], bounds[2]),
+		);
+	}
+
+	if (attribution) {
+		options.attribution = attribution;
+	}
+
+	if (scheme === 'tms') {
+		options.tms = true;
+	}
+
+	return { url, options };
+}
+
+/**
+ * Returns the initial view suggested by the `center` of a TileJSON document, if it has one.
+ *
+ * ```js
+ * const view = tileJSONView(tileJSON);
+ *
+ * if (view) {
+ *     map.setView(view.center, view.zoom);
+ * }
+ * ```
+ */
+export function tileJSONView(tileJSON: TileJSON): { center: LatLng, zoom: number } | undefined {
+	const center = tileJSON.center;
+
+	if (!center) { return undefined; }
+
+	return {
+		center: new LatLng(center[1], center[0]),
+		zoom: center[2],
+	};
+}
+
+/**
+ * Fetches a TileJSON document (e.g. the `tiles.json` endpoint of a tile server).
+ */
+export function loadTileJSON(url: string, init?: RequestInit): Promise<TileJSON> {
+	return fetch(url, init).then(response => {
+		if (!response.ok) {
+			throw new Error(`TileJSON request failed with status ${response.status}`);
+		}
+		return response.json();
+	});
+}
+
+// Turns URLs which only differ in one place into a template with `{s}` in that place
+function splitSubdomains(urls: string[]): { url: string, subdomains: string[] } | undefined {
+	const first = urls[0];
+
+	let
+		prefix = first.length,
+		suffix = first.length;
+
+	for (const url of urls) {
+		let i = 0;
+		while (i < prefix && url[i] === first[i]) { i++; }
+		prefix = i;
+	}
+
+	// The common suffix must not overlap the common prefix in any URL
+	for (const url of urls) {
+		let j = 0;
+		while (j < suffix && j < url.length - prefix && url[url.length - 1 - j] === first[first.length - 1 - j]) { j++; }
+		suffix = j;
+	}
+
+	const subdomains = urls.map(url => url.slice(prefix, url.length - suffix));
+
+	// The differing parts must not cut through a template variable
+	if (subdomains.some(s => /[{}]/.test(s))) { return undefined; }
+
+	return {
+		url: `${first.slice(0, prefix)}{s}${first.slice(first.length - suffix)}`,
+		subdomains,
+	};
+}
@@ -0,0 +1,305 @@
+import { Point } from '../../geom';
+
+/**
+ * A decoded [Mapbox Vector Tile](https://github.com/mapbox/vector-tile-spec), as returned
+ * by `decodeVectorTile()`. Layers are listed in the order they appear in the tile, which
+ * is the order they should be drawn in.
+ */
+export interface VectorTile {
+	layers: VectorTileData[];
+}
+
+/** A named layer of a vector tile (e.g. `'water'` or `'roads'`). */
+export interface VectorTileData {
+	name: string;
+	version: number;
+	/** Size of the tile in the coordinates of the features, 4096 by default. */
+	extent: number;
+	features: VectorTileFeature[];
+}
+
+export type VectorTileValue = string | number | boolean;
+
+export interface VectorTileFeature {
+	id: number | undefined;
+	type: 'Unknown' | 'Point' | 'LineString' | 'Polygon';
+	properties: Dict<VectorTileValue>;
+	/**
+	 * The points of the feature in tile coordinates (from 0 to the extent of the layer,
+	 * although features may extend past the tile edges). Each array is a point (for
+	 * multi-points), a line or a polygon ring. Rings are not closed, i.e. the first point
+	 * is not repeated at the end, and holes can be told apart by their winding order.
+	 */
+	geometry: Point[][];
+}
+
+const featureTypes: VectorTileFeature['type'][] = ['Unknown', 'Point', 'LineString', 'Polygon'];
+
+/**
+ * Decodes a tile in the Mapbox Vector Tile format (the Protocol Buffers encoded `.pbf` or
+ * `.mvt` files served by vector tile servers). The data must not be compressed, which it
+ * is not when served with a `Content-Encoding` the browser understands. Throws an error
+ * if the data is not a valid vector tile.
+ *
+ * ```js
+ * const tile = decodeVectorTile(await (await fetch(url)).arrayBuffer());
+ * ```
+ */
+export function decodeVectorTile(data: ArrayBuffer | Uint8Array): VectorTile {
+	const
+		pbf = new ProtobufReader(data instanceof Uint8Array ? data : new Uint8Array(data)),
+		layers: VectorTileData[] = [];
+
+	pbf.readFields(pbf.length, (tag, wireType) => {
+		if (tag === 3) {
+			layers.push(readLayer(pbf, pbf.readVarint() + pbf.pos));
+		} else {
+			pbf.skip(wireType);
+		}
+	});
+
+	return { layers };
+}
+
+// Features refer to their property keys and values by index, but the keys and values may
+// come after the features in the layer message, so the tags are resolved at the end
+interface RawFeature {
+	id: number | undefined;
+	type: number;
+	tags: number[];
+	geometry: number[];
+}
+
+function readLayer(pbf: ProtobufReader, end: number): VectorTileData {
+	const
+		keys: string[] = [],
+		values: VectorTileValue[] = [],
+		rawFeatures: RawFeature[] = [];
+
+	let
+		name = '',
+		version = 1,
+		extent = 4096;
+
+	pbf.readFields(end, (tag, wireType) => {
+		switch (tag) {
+			case 15: version = pbf.readVarint(); break;
+			case 1: name = pbf.readString(); break;
+			case 2: rawFeatures.push(readFeature(pbf, pbf.readVarint() + pbf.pos)); break;
+			case 3: keys.push(pbf.readString()); break;
+			case 4: values.push(readValue(pbf, pbf.readVarint() + pbf.pos)); break;
+			case 5: extent = pbf.readVarint(); break;
+			default: pbf.skip(wireType);
+		}
+	});
+
+	const features = rawFeatures.map((raw): VectorTileFeature => {
+		const properties: Dict<VectorTileValue> = {};
+
+		for (let i = 0; i + 1 < raw.tags.length; i += 2) {
+			const key = keys[raw.tags[i]], value = values[raw.tags[i + 1]];
+
+			if (key === undefined || value === undefined) {
+				throw new Error(`Invalid property tags in vector tile layer '${name}'`);
+			}
+
+			properties[key] = value;
+		}
+
+		return {
+			id: raw.id,
+			type: featureTypes[raw.type] || 'Unknown',
+			properties,
+			geometry: decodeGeometry(raw.geometry),
+		};
+	});
+
+	return { name, version, extent, features };
+}
+
+function readFeature(pbf: ProtobufReader, end: number): RawFeature {
+	const feature: RawFeature = { id: undefined, type: 0, tags: [], geometry: [] };
+
+	pbf.readFields(end, (tag, wireType) => {
+		switch (tag) {
+			case 1: feature.id = pbf.readVarint(); break;
+			case 2: pbf.readPackedVarints(feature.tags); break;
+			case 3: feature.type = pbf.readVarint(); break;
+			case 4: pbf.readPackedVarints(feature.geometry); break;
+			default: pbf.skip(wireType);
+		}
+	});
+
+	return feature;
+}
+
+function readValue(pbf: ProtobufReader, end: number): VectorTileValue {
+	let value: VectorTileValue = '';
+
+	pbf.readFields(end, (tag, wireType) => {
+		switch (tag) {
+			case 1: value = pbf.readString(); break;
+			case 2: value = pbf.readFloat(); break;
+			case 3: value = pbf.readDouble(); break;
+			case 4: value = pbf.readVarint(true); break;
+			case 5: value = pbf.readVarint(); break;
+			case 6: value = pbf.readSVarint(); break;
+			case 7: value = !!pbf.readVarint(); break;
+			default: pbf.skip(wireType);
+		}
+	});
+
+	return value;
+}
+
+// Decodes the MoveTo/LineTo/ClosePath commands of a feature geometry, see
+// https://github.com/mapbox/vector-tile-spec/tree/master/2.1#43-geometry-encoding
+function decodeGeometry(commands: number[]): Point[][] {
+	const parts: Point[][] = [];
+
+	let
+		part: Point[] | undefined,
+		x = 0,
+		y = 0,
+		i = 0;
+
+	while (i < commands.length) {
+		const
+			command = commands[i] & 0x7,
+			count = commands[i] >> 3;
+
+		i++;
+
+		if (command === 1 || command === 2) {
+			if (i + count * 2 > commands.length) {
+				throw new Error('Truncated vector tile geometry');
+			}
+
+			for (let j = 0; j < count; j++) {
+				x += zigzag(commands[i++]);
+				y += zigzag(commands[i++]);
+
+				// Every MoveTo starts a new point, line or ring
+				if (command === 1 || !part) {
+					parts.push(part = []);
+				}
+
+				part.push(new Point(x, y));
+			}
+		} else if (command === 7) {
+			// Rings are drawn as closed paths anyway, so ClosePath needs no point of its own
+			part = undefined;
+		} else {
+			throw new Error(`Unknown vector tile geometry command ${command}`);
+		}
+	}
+
+	return parts;
+}
+
+function zigzag(n: number): number {
+	return (n >>> 1) ^ -(n & 1);
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * A minimal reader for the subset of the Protocol Buffers wire format used by vector tiles.
+ */
+class ProtobufReader {
+
+	pos = 0;
+	length: number;
+	_view: DataView;
+
+	constructor(public _buf: Uint8Array) {
+		this.length = _buf.length;
+		this._view = new DataView(_buf.buffer, _buf.byteOffset, _buf.byteLength);
+	}
+
+	readFields(end: number, readField: (tag: number, wireType: number) => void): void {
+		if (end > this.length) {
+			throw new Error('Truncated vector tile message');
+		}
+
+		while (this.pos < end) {
+			const key = this.readVarint();
+			readField(key >>> 3, key & 0x7);
+		}
+	}
+
+	// Reads a varint as a JavaScript number, so 64-bit integers lose precision above 2^53.
+	// Negative int64 values take 10 bytes and come out as large numbers unless `signed` is set.
+	readVarint(signed?: boolean): number {
+		const buf = this._buf;
+
+		let
+			value = 0,
+			// One's complement of the 64 bits, small for small negative numbers, which
+			// `value - 2^64` would round away
+			inverted = 0,
+			multiplier = 1,
+			byte: number;
+
+		do {
+			if (this.pos >= this.length) {
+				throw new Error('Truncated vector tile varint');
+			}
+
+			byte = buf[this.pos++];
+			value += (byte & 0x7f) * multiplier;
+			inverted += (~byte & (multiplier < 2 ** 63 ? 0x7f : 0x01)) * multiplier;
+			multiplier *= 128;
+		} while (byte & 0x80);
+
+		return signed && value >= 2 ** 63 ? -inverted - 1 : value;
+	}
+
+	readSVarint(): number {
+		const n = this.readVarint();
+		return n % 2 ? (n + 1) / -2 : n / 2;
+	}
+
+	readFloat(): number {
+		const value = this._view.getFloat32(this.pos, true);
+		this.pos += 4;
+		return value;
+	}
+
+	readDouble(): number {
+		const value = this._view.getFloat64(this.pos, true);
+		this.pos += 8;
+		return value;
+	}
+
+	readString(): string {
+		const end = this.readVarint() + this.pos;
+
+		if (end > this.length) {
+			throw new Error('Truncated vector tile string');
+		}
+
+		const value = textDecoder.decode(this._buf.subarray(this.pos, end));
+		this.pos = end;
+		return value;
+	}
+
+	readPackedVarints(out: number[]): void {
+		const end = this.readVarint() + this.pos;
+
+		while (this.pos < end) {
+			out.push(this.readVarint());
+		}
+	}
+
+	skip(wireType: number): void {
+		switch (wireType) {
+			case 0: this.readVarint(); break;
+			case 1: this.pos += 8; break;
+			case 2: this.pos += this.readVarint(); break;
+			case 5: this.pos += 4; break;
+			default: throw new Error(`Unsupported protobuf wire type ${wireType}`);
+		}
+	}
+
+}
@@ -0,0 +1,197 @@
+import { Point } from '../../geom';
+
+/** The capabilities of a WMTS service, as returned by `parseWMTSCapabilities()`. */
+export interface WMTSCapabilities {
+	layers: WMTSLayer[];
+	tileMatrixSets: WMTSTileMatrixSet[];
+	/** URL to send KVP encoded `GetTile` requests to, if the service supports them. */
+	getTileUrl: string | undefined;
+}
+
+export interface WMTSLayer {
+	identifier: string;
+	title: string;
+	/** Identifiers of the styles of the layer. */
+	styles: string[];
+	/** Identifier of the style marked as the default one, if any. */
+	defaultStyle: string | undefined;
+	/** Image formats the tiles are available in, e.g. `'image/png'`. */
+	formats: string[];
+	/** Identifiers of the tile matrix sets the tiles are available in. */
+	tileMatrixSets: string[];
+	/** URL templates for RESTful requests. */
+	resourceUrls: WMTSResourceUrl[];
+	dimensions: WMTSDimension[];
+}
+
+export interface WMTSResourceUrl {
+	format: string;
+	/** What the URL returns, `'tile'` for tile images. */
+	resourceType: string;
+	/**
+	 * URL template with `{TileMatrixSet}`, `{TileMatrix}`, `{TileRow}`, `{TileCol}`,
+	 * `{Style}` and dimension (e.g. `{Time}`) variables.
+	 */
+	template: string;
+}
+
+/** An extra parameter of the tile requests of a layer, such as `TIME` or `ELEVATION`. */
+export interface WMTSDimension {
+	identifier: string;
+	default: string;
+	values: string[];
+}
+
+export interface WMTSTileMatrixSet {
+	identifier: string;
+	/** Identifier of the CRS of the tile matrices, e.g. `'urn:ogc:def:crs:EPSG::3857'`. */
+	supportedCRS: string;
+	/**
+	 * Size of one unit of the CRS in meters, which relates the scale denominators of the
+	 * tile matrices to CRS units: 1 for projected CRSs, and the length of a degree at the
+	 * equator for geographic ones.
+	 */
+	metersPerUnit: number;
+	/** The tile matrices of the set, from the least to the most detailed one. */
+	tileMatrices: WMTSTileMatrix[];
+}
+
+/** A zoom level of a tile matrix set. */
+export interface WMTSTileMatrix {
+	identifier: string;
+	/** Scale of the tiles assuming pixels of 0.28 mm, as defined by the WMTS standard. */
+	scaleDenominator: number;
+	/** Top left corner of the top left tile, in CRS units with the easting (x) first. */
+	topLeftCorner: Point;
+	tileWidth: number;
+	tileHeight: number;
+	/** Number of tile columns. */
+	matrixWidth: number;
+	/** Number of tile rows. */
+	matrixHeight: number;
+}
+
+// Geographic CRSs whose coordinates are in degrees, with the latitude first unless they
+// are one of the OGC CRS84 variants
+const
+	degreesCRSRe = /(EPSG:+(4326|4258|4269|4283)|CRS:?84)$/i,
+	lonLatCRSRe = /CRS:?84$/i,
+	metersPerDegree = 2 * Math.PI * 6378137 / 360;
+
+/**
+ * Parses a WMTS `GetCapabilities` response, given as XML text or as a parsed document,
+ * into the information needed by `TileLayerWMTS.fromCapabilities()`. Throws an error if
+ * it is not a WMTS capabilities document.
+ *
+ * Only the most common geographic CRSs (e.g. EPSG:4326) are known to be in degrees and to
+ * have their latitude first, all others are assumed to be projected in meters with the
+ * easting first. Fix the `metersPerUnit` and `topLeftCorner` of the tile matrix sets of
+ * other CRSs yourself.
+ */
+export function parseWMTSCapabilities(xml: Document | string): WMTSCapabilities {
+	const
+		doc = typeof xml === 'string' ? new DOMParser().parseFromString(xml, 'application/xml') : xml,
+		root = doc.documentElement;
+
+	if (root.localName !== 'Capabilities' || !child(root, 'Contents')) {
+		throw new Error('Not a WMTS capabilities document');
+	}
+
+	const contents = child(root, 'Contents')!;
+
+	return {
+		layers: children(contents, 'Layer').map(parseLayer),
+		tileMatrixSets: children(contents, 'TileMatrixSet').map(parseTileMatrixSet),
+		getTileUrl: parseGetTileUrl(root),
+	};
+}
+
+function parseLayer(el: Element): WMTSLayer {
+	const styles = children(el, 'Style');
+
+	return {
+		identifier: text(el, 'Identifier'),
+		title: text(el, 'Title'),
+		styles: styles.map(style => text(style, 'Identifier')),
+		defaultStyle: styles
+			.filter(style => style.getAttribute('isDefault') === 'true')
+			.map(style => text(style, 'Identifier'))[0],
+		formats: children(el, 'Format').map(format => format.textContent!.trim()),
+		tileMatrixSets: children(el, 'TileMatrixSetLink').map(link => text(link, 'TileMatrixSet')),
+		resourceUrls: children(el, 'ResourceURL').map(url => ({
+			format: url.getAttribute('format') || '',
+			resourceType: url.getAttribute('resourceType') || '',
+			template: url.getAttribute('template') || '',
+		})),
+		dimensions: children(el, 'Dimension').map(dimension => ({
+			identifier: text(dimension, 'Identifier'),
+			default: text(dimension, 'Default'),
+			values: children(dimension, 'Value').map(value => value.textContent!.trim()),
+		})),
+	};
+}
+
+function parseTileMatrixSet(el: Element): WMTSTileMatrixSet {
+	const
+		supportedCRS = text(el, 'SupportedCRS'),
+		degrees = degreesCRSRe.test(supportedCRS),
+		latFirst = degrees && !lonLatCRSRe.test(supportedCRS);
+
+	return {
+		identifier: text(el, 'Identifier'),
+		supportedCRS,
+		metersPerUnit: degrees ? metersPerDegree : 1,
+		tileMatrices: children(el, 'TileMatrix').map((matrix): WMTSTileMatrix => {
+			const [a, b] = text(matrix, 'TopLeftCorner').split(/\s+/).map(Number);
+
+			return {
+				identifier: text(matrix, 'Identifier'),
+				scaleDenominator: Number(text(matrix, 'ScaleDenominator')),
+				topLeftCorner: latFirst ? new Point(b, a) : new Point(a, b),
+				tileWidth: Number(text(matrix, 'TileWidth')),
+				tileHeight: Number(text(matrix, 'TileHeight')),
+				matrixWidth: Number(text(matrix, 'MatrixWidth')),
+				matrixHeight: Number(text(matrix, 'MatrixHeight')),
+			};
+		}),
+	};
+}
+
+// Finds the URL for GET requests of the `GetTile` operation which allows the KVP encoding
+function parseGetTileUrl(root: Element): string | undefined {
+	const
+		metadata = child(root, 'OperationsMetadata'),
+		operation = metadata && children(metadata, 'Operation')
+			.find(op => op.getAttribute('name') === 'GetTile');
+
+	if (!operation) { return undefined; }
+
+	for (const dcp of children(operation, 'DCP')) {
+		for (const http of children(dcp, 'HTTP')) {
+			for (const get of children(http, 'Get')) {
+				const encodings = children(get, 'Constraint')
+					.filter(constraint => constraint.getAttribute('name') === 'GetEncoding')
+					.flatMap(constraint => Array.from(constraint.getElementsByTagNameNS('*', 'Value')))
+					.map(value => value.textContent!.trim());
+
+				if (!encodings.length || encodings.includes('KVP')) {
+					return get.getAttributeNS('http://www.w3.org/1999/xlink', 'href') || undefined;
+				}
+			}
+		}
+	}
+
+	return undefined;
+}
+
+function children(el: Element, localName: string): Element[] {
+	return Array.from(el.children).filter(c => c.localName === localName);
+}
+
+function child(el: Element, localName: string): Element | undefined {
+	return children(el, localName)[0];
+}
+
+function text(el: Element, localName: string): string {
+	return child(el, localName)?.textContent?.trim() || '';
+}
@@ -45,10 +45,10 @@ import { Polyline, type PolylineOptions } from './Polyline.js';
 export class Polygon extends Polyline {
 
 	constructor(
-		latlngs: LatLng[],
+		latlngs: LatLng[] | LatLng[][] | LatLng[][][],
 		options?: Partial<PolylineOptions>,
 	) {
-		super(latlngs, options);
+		super(latlngs as LatLng[][], options);
 
 		// Default path options set 'fill' to false if not provided explicitly,
 		// but polygons should make it true by default
@@ -56,6 +56,11 @@ export class Polygon extends Polyline {
 		this._setLatLngs(latlngs);
 	}
 
+	// Replaces all the points in the polygon with the given (possibly nested) array of points.
+	setLatLngs(latlngs: LatLng[] | LatLng[][] | LatLng[][][]): this {
+		return super.setLatLngs(latlngs as LatLng[][]);
+	}
+
 	isEmpty(): boolean {
 		return !this._latlngs.length || !(this._latlngs[0] as any).length;
 	}
@@ -66,16 +71,15 @@ export class Polygon extends Polyline {
 		return GeogUtil.polygonCenter(this._defaultShape(), this._map!.options.crs);
 	}
 
-	_setLatLngs(latlngs: LatLng[] | LatLng[][]): void {
-		Polyline.prototype._setLatLngs.call(this, latlngs);
+	_setLatLngs(latlngs: LatLng[] | LatLng[][] | LatLng[][][]): void {
+		Polyline.prototype._setLatLngs.call(this, latlngs as LatLng[][]);
 		latlngs = this._latlngs; // in case the Polyline method modified the coordinates
 
-		if (GeogUtil.isFlat(latlngs)) {
-			// Remove the last point if it equals the first
-			if (latlngs.length >= 2 && latlngs[0].equals(latlngs[latlngs.length - 1])) {
-				latlngs.pop();
-			}
+		// Remove the last point of every ring if it equals the first (GeoJSON rings, for
+		// example, always repeat the first point)
+		removeClosingPoints(latlngs);
 
+		if (GeogUtil.isFlat(latlngs)) {
 			this._latlngs = [latlngs];
 		}
 	}
@@ -149,3 +153,18 @@ export class Polygon extends Polyline {
 	}
 
 }
+
+function removeClosingPoints(latlngs: LatLng[] | LatLng[][] | LatLng[][][]): void {
+	if (!GeogUtil.isFlat(latlngs as LatLng[][])) {
+		for (const nested of latlngs as LatLng[][]) {
+			removeClosingPoints(nested);
+		}
+		return;
+	}
+
+	const ring = latlngs as LatLng[];
+
+	if (ring.length >= 2 && ring[0].equals(ring[ring.length - 1])) {
+		ring.pop();
+	}
+}
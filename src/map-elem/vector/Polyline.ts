@@ -59,7 +59,7 @@ export class Polyline extends Path {
 	_rawPxBounds: Bounds | undefined;
 
 	constructor(
-		latlngs: LatLng[],
+		latlngs: LatLng[] | LatLng[][],
 		options?: Partial<PolylineOptions>,
 	) {
 		super();
@@ -83,7 +83,7 @@ export class Polyline extends Path {
 	}
 
 	// Replaces all the points in the polyline with the given array of geographical points.
-	setLatLngs(latlngs: LatLng[]): this {
+	setLatLngs(latlngs: LatLng[] | LatLng[][]): this {
 		this._setLatLngs(latlngs);
 		return this.redraw();
 	}
@@ -148,17 +148,7 @@ export class Polyline extends Path {
 		this._latlngs = latlngs;
 
 		// Now extend the bounds to include every coordinate
-		if (GeogUtil.isFlat(latlngs)) {
-			for (const latlng of latlngs) {
-				bounds.extend(latlng);
-			}
-		} else {
-			for (const ring of latlngs) {
-				for (const latlng of ring) {
-					bounds.extend(latlng);
-				}
-			}
-		}
+		extendBounds(bounds, latlngs);
 	}
 
 	_defaultShape(): LatLng[] {
@@ -296,3 +286,19 @@ export class Polyline extends Path {
 	}
 
 }
+
+/**
+ * Arbitrarily nested arrays of coordinates. Polylines nest up to one level deep (multi-
+ * polylines), while polygons nest up to two levels deep (multi-polygons with holes).
+ */
+type NestedLatLngs = readonly LatLng[] | readonly NestedLatLngs[];
+
+function extendBounds(bounds: LatLngBounds, latlngs: NestedLatLngs): void {
+	for (const item of latlngs) {
+		if (item instanceof LatLng) {
+			bounds.extend(item);
+		} else {
+			extendBounds(bounds, item);
+		}
+	}
+}
@@ -0,0 +1,268 @@
+import type { Disposable } from '../../core';
+import { DomUtil } from '../../dom';
+import type { LatLng } from '../../geog';
+import { GeogUtil } from '../../geog/util';
+import { Point } from '../../geom';
+import type { Map } from '../../map';
+import { Icon, Marker, MarkerDrag } from '../marker';
+import { Polygon } from './Polygon.js';
+import type { Polyline } from './Polyline.js';
+
+// A flat array of points of the shape being edited (a line, a polygon ring or a hole),
+// with the handles for its vertices and for the midpoints between them
+interface EditRing {
+	latlngs: LatLng[];
+	vertices: Marker[];
+	midpoints: Marker[];
+}
+
+/**
+ * PolylineEdit lets the user reshape a `Polyline` or `Polygon` (including multi-part
+ * shapes and holes) on the map. Every vertex gets a draggable handle, and the handles
+ * between vertices insert a new vertex when they are dragged or clicked. Clicking a
+ * vertex (or pressing `Delete`/`Backspace` while it is focused) removes it, unless the
+ * line or ring would be left with too few vertices. Like `MarkerDrag`, it adds its
+ * handles upon being constructed, and you must `dispose()` of it to stop editing. It is
+ * also disposed of when the shape is removed from the map.
+ *
+ * ```js
+ * const editing = new PolylineEdit(map, polygon);
+ *
+ * polygon.on('editend', e => save(e.latlngs));
+ * ```
+ *
+ * @event editstart: PolylineEditEvent
+ * Fired on the shape when the user starts changing it (e.g. starts dragging a vertex).
+ *
+ * @event edit: PolylineEditEvent
+ * Fired on the shape every time its points change, with the new `latlngs`.
+ *
+ * @event editend: PolylineEditEvent
+ * Fired on the shape when the user is done with a change, with the new `latlngs`.
+ */
+export class PolylineEdit implements Disposable {
+
+	_rings: EditRing[] = [];
+	_drags: MarkerDrag[] = [];
+	_closed: boolean;
+
+	constructor(
+		public _map: Map,
+		public _poly: Polyline,
+	) {
+		this._closed = _poly instanceof Polygon;
+		this._createHandles();
+
+		_poly.on('remove', this.dispose, this, true);
+	}
+
+	dispose(): void {
+		this._poly.off('remove', this.dispose, this);
+		this._removeHandles();
+	}
+
+	_createHandles(): void {
+		for (const latlngs of flatRings(this._poly.getLatLngs())) {
+			const ring: EditRing = { latlngs, vertices: [], midpoints: [] };
+
+			for (let i = 0; i < latlngs.length; i++) {
+				ring.vertices.push(this._createVertex(ring, i));
+			}
+			for (let i = 0; i < this._segmentCount(ring); i++) {
+				ring.midpoints.push(this._createMidpoint(ring, i));
+			}
+
+			this._rings.push(ring);
+		}
+	}
+
+	_removeHandles(): void {
+		for (const drag of this._drags) {
+			drag.dispose();
+		}
+		for (const ring of this._rings) {
+			for (const handle of [...ring.vertices, ...ring.midpoints]) {
+				this._map.removeLayer(handle);
+			}
+		}
+
+		this._drags = [];
+		this._rings = [];
+	}
+
+	// Recreates all handles after vertices were inserted or removed
+	_resetHandles(): void {
+		this._removeHandles();
+		this._createHandles();
+	}
+
+	_createVertex(ring: EditRing, index: number): Marker {
+		const
+			handle = this._createHandle(ring.latlngs[index], 'leaflet-edit-vertex', 'Vertex'),
+			drag = new MarkerDrag(this._map, handle);
+
+		handle.on({
+			dragstart: () => this._fire('editstart'),
+			drag: (e: { latlng: LatLng }) => this._moveVertex(ring, index, e.latlng),
+			dragend: () => this._fire('editend'),
+			click: () => this._removeVertex(ring, index, false),
+			keydown: (e: { originalEvent: KeyboardEvent }) => {
+				const key = e.originalEvent.key;
+
+				if (key === 'Delete' || key === 'Backspace') {
+					this._removeVertex(ring, index, true);
+				}
+			},
+		});
+
+		this._drags.push(drag);
+
+		return handle;
+	}
+
+	_createMidpoint(ring: EditRing, index: number): Marker {
+		const
+			handle = this._createHandle(this._midpointLatLng(ring, index), 'leaflet-edit-midpoint', 'Add vertex'),
+			drag = new MarkerDrag(this._map, handle);
+
+		handle.on({
+			// The midpoint becomes a vertex as soon as it is dragged; the other midpoints of
+			// the ring would be in the wrong place until the handles are recreated
+			dragstart: () => {
+				ring.latlngs.splice(index + 1, 0, handle.getLatLng());
+
+				for (const midpoint of ring.midpoints) {
+					if (midpoint !== handle) {
+						this._map.removeLayer(midpoint);
+					}
+				}
+
+				this._fire('editstart');
+				this._update();
+			},
+			drag: (e: { latlng: LatLng }) => {
+				ring.latlngs[index + 1] = e.latlng;
+				this._update();
+			},
+			dragend: () => {
+				this._fire('editend');
+				this._resetHandles();
+			},
+			click: () => this._insertVertex(ring, index, false),
+			keydown: (e: { originalEvent: KeyboardEvent }) => {
+				const key = e.originalEvent.key;
+
+				if (key === 'Enter' || key === ' ') {
+					this._insertVertex(ring, index, true);
+				}
+			},
+		});
+
+		this._drags.push(drag);
+
+		return handle;
+	}
+
+	_createHandle(latlng: LatLng, className: string, label: string): Marker {
+		const
+			el = DomUtil.create('div', `leaflet-marker-icon leaflet-edit-handle ${className}`),
+			handle = new Marker(latlng, new Icon(el, new Point(12, 12), new Point(6, 6)), {
+				// Keep the handles above the markers of the map
+				zIndexOffset: 10000,
+			});
+
+		el.setAttribute('aria-label', label);
+		this._map.addLayer(handle);
+
+		return handle;
+	}
+
+	_moveVertex(ring: EditRing, index: number, latlng: LatLng): void {
+		const
+			count = ring.latlngs.length,
+			before = this._closed ? (index - 1 + count) % count : index - 1;
+
+		ring.latlngs[index] = latlng;
+
+		// Move the midpoints on both sides of the vertex along
+		for (const i of [before, index]) {
+			ring.midpoints[i]?.setLatLng(this._midpointLatLng(ring, i));
+		}
+
+		this._update();
+	}
+
+	_insertVertex(ring: EditRing, index: number, focus: boolean): void {
+		ring.latlngs.splice(index + 1, 0, this._midpointLatLng(ring, index));
+
+		this._fire('editstart');
+		this._update();
+		this._fire('editend');
+		this._resetHandles();
+
+		if (focus) {
+			this._focusVertex(ring.latlngs, index + 1);
+		}
+	}
+
+	_removeVertex(ring: EditRing, index: number, focus: boolean): void {
+		// Lines need at least 2 vertices, polygon rings need at least 3
+		if (ring.latlngs.length <= (this._closed ? 3 : 2)) { return; }
+
+		ring.latlngs.splice(index, 1);
+
+		this._fire('editstart');
+		this._update();
+		this._fire('editend');
+		this._resetHandles();
+
+		if (focus) {
+			this._focusVertex(ring.latlngs, Math.min(index, ring.latlngs.length - 1));
+		}
+	}
+
+	// Moves the keyboard focus to a vertex handle, after the handles were recreated
+	_focusVertex(latlngs: LatLng[], index: number): void {
+		this._rings
+			.find(ring => ring.latlngs === latlngs)
+			?.vertices[index]
+			?.getElement()
+			.focus();
+	}
+
+	_segmentCount(ring: EditRing): number {
+		return this._closed ? ring.latlngs.length : ring.latlngs.length - 1;
+	}
+
+	// Returns the point halfway between the vertex at the index and the next one, halfway
+	// on the screen (rather than geographically) so it shows up in the middle of the segment
+	_midpointLatLng(ring: EditRing, index: number): LatLng {
+		const
+			map = this._map,
+			latlngs = ring.latlngs,
+			p1 = map.latLngToLayerPoint(latlngs[index]),
+			p2 = map.latLngToLayerPoint(latlngs[(index + 1) % latlngs.length]);
+
+		return map.layerPointToLatLng(p1._add(p2)._divideBy(2));
+	}
+
+	// Redraws the shape after its points were changed in place
+	_update(): void {
+		this._poly.setLatLngs(this._poly.getLatLngs());
+		this._fire('edit');
+	}
+
+	_fire(type: string): void {
+		this._poly.fire(type, { latlngs: this._poly.getLatLngs() });
+	}
+
+}
+
+// Returns all the flat arrays of points in (possibly nested) polyline or polygon latlngs
+function flatRings(latlngs: LatLng[] | LatLng[][] | LatLng[][][]): LatLng[][] {
+	if (GeogUtil.isFlat(latlngs as LatLng[] | LatLng[][])) {
+		return [latlngs as LatLng[]];
+	}
+
+	return (latlngs as LatLng[][]).flatMap(nested => flatRings(nested));
+}
@@ -0,0 +1,159 @@
+import { Evented, Util, type Disposable } from '../../core';
+import { DomEvent, DomUtil } from '../../dom';
+import { Point } from '../../geom';
+import type { Map } from '../../map';
+import type { Layer } from '../../map-elem';
+
+export interface DrawOptions {
+	/**
+	 * Whether to keep drawing new shapes after one was created, until the drawing is
+	 * disposed of (or the user presses `Escape`). False by default, meaning that the
+	 * drawing is disposed of as soon as a shape is created.
+	 */
+	repeat: boolean;
+	/**
+	 * Whether to show a hint next to the cursor telling the user what to do next and
+	 * the length or area of the shape being drawn. True by default.
+	 */
+	showHint: boolean;
+}
+
+/**
+ * Base class for the drawing tools. A drawing starts listening for input upon being
+ * constructed (the map gets a crosshair cursor), and stops when it is disposed of or the
+ * user presses `Escape`. Shapes are never added to the map by the drawing itself: listen
+ * to the `created` event and add the layer yourself (or store it somewhere first).
+ *
+ * ```js
+ * const drawing = new DrawPolygon(map, { style: { color: 'red' } });
+ *
+ * drawing.on('created', e => map.addLayer(e.layer));
+ * ```
+ *
+ * @event created: DrawCreatedEvent
+ * Fired when the user finished drawing a shape, with the new `layer`.
+ *
+ * @event cancel: Event
+ * Fired when the user stopped drawing by pressing `Escape`, right before the drawing is
+ * disposed of.
+ */
+export abstract class DrawBase extends Evented implements Disposable {
+
+	declare options: DrawOptions;
+
+	_disposed = false;
+	_hint: HTMLElement | undefined;
+
+	constructor(
+		public _map: Map,
+		options?: Partial<DrawOptions>,
+	) {
+		super();
+
+		Util.setOptions(this, options, {
+			repeat: false,
+			showHint: true,
+		});
+
+		if (this.options.showHint) {
+			this._hint = DomUtil.create('div', 'leaflet-draw-hint', _map._container);
+			this._hint.hidden = true;
+		}
+
+		_map._container.classList.add('leaflet-crosshair');
+		_map.on('mousemove', this._onHover, this);
+		_map.on('dispose', this.dispose, this, true);
+
+		DomEvent.on(document, 'keydown', this._onKeyDown, this);
+	}
+
+	// Removes the input listeners of the drawing tool
+	abstract _removeHooks(): void;
+
+	// Throws away the shape being drawn, if any
+	abstract _reset(): void;
+
+	// Returns the text of the hint for the current state of the shape being drawn
+	abstract _hintText(): string;
+
+	dispose(): void {
+		if (this._disposed) { return; }
+
+		const map = this._map;
+
+		this._reset();
+		this._removeHooks();
+		this._hint?.remove();
+
+		map._container.classList.remove('leaflet-crosshair');
+		map.off('mousemove', this._onHover, this);
+		map.off('dispose', this.dispose, this);
+
+		DomEvent.off(document, 'keydown', this._onKeyDown, this);
+
+		this._disposed = true;
+	}
+
+	// Hands a finished shape over to the user
+	_finish(layer: Layer): void {
+		this._reset();
+		this.fire('created', { layer });
+
+		if (this.options.repeat) {
+			this._updateHint();
+		} else {
+			this.dispose();
+		}
+	}
+
+	_onHover(e: { containerPoint: Point }): void {
+		this._updateHint(e.containerPoint);
+	}
+
+	_onKeyDown(e: KeyboardEvent): void {
+		if (e.key === 'Escape' && !isEditable(e.target)) {
+			this.fire('cancel');
+			this.dispose();
+		}
+	}
+
+	// Updates the text of the hint, and moves it next to the cursor if its position is given
+	_updateHint(containerPoint?: Point): void {
+		const hint = this._hint;
+
+		if (!hint) { return; }
+
+		if (containerPoint) {
+			DomUtil.setPosition(hint, containerPoint.add(new Point(16, 16)));
+			hint.hidden = false;
+		}
+
+		hint.textContent = this._hintText();
+	}
+
+}
+
+// Whether the keyboard event happened in a form field (or other editable element), where
+// keys like `Backspace` and `Escape` are meant for the field rather than for the drawing
+export function isEditable(target: EventTarget | null): boolean {
+	return target instanceof HTMLElement && (
+		target.isContentEditable ||
+		target instanceof HTMLInputElement ||
+		target instanceof HTMLTextAreaElement ||
+		target instanceof HTMLSelectElement
+	);
+}
+
+// Formats a distance in meters for the hint
+export function formatLength(meters: number): string {
+	return meters < 1000
+		? `${Math.round(meters)} m`
+		: `${(meters / 1000).toFixed(meters < 10000 ? 2 : 1)} km`;
+}
+
+// Formats an area in square meters for the hint
+export function formatArea(squareMeters: number): string {
+	return squareMeters < 1e6
+		? `${Math.round(squareMeters)} m²`
+		: `${(squareMeters / 1e6).toFixed(squareMeters < 1e7 ? 2 : 1)} km²`;
+}
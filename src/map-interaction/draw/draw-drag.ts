@@ -0,0 +1,215 @@
+import { Util } from '../../core';
+import { DomEvent, DomUtil } from '../../dom';
+import { LatLngBounds, type LatLng } from '../../geog';
+import type { Map } from '../../map';
+import { Circle, Rectangle, type CircleMarkerOptions, type PathOptions } from '../../map-elem/vector';
+import { DrawBase, formatArea, formatLength, type DrawOptions } from './_draw-base.js';
+
+/**
+ * Base class for the drawing tools which create a shape by pressing the mouse button (or
+ * a finger) at one point and dragging to another. The map cannot be panned by dragging
+ * while such a drawing is in progress.
+ */
+export abstract class DrawByDragging extends DrawBase {
+
+	_start: LatLng | undefined;
+	_end: LatLng | undefined;
+	_shape: Rectangle | Circle | undefined;
+	_panningDisabled = false;
+
+	constructor(map: Map, options?: Partial<DrawOptions>) {
+		super(map, options);
+
+		// TODO: the map should offer a proper way to suspend behaviors instead of reaching
+		// into the Draggable of the Drag behavior
+		if (map.dragging?.enabled()) {
+			map.dragging._draggable.disable();
+			this._panningDisabled = true;
+		}
+
+		DomEvent.on(map._container, 'mousedown touchstart', this._onDown, this);
+	}
+
+	// Creates the shape from the point where the user started dragging to the current one
+	abstract _createShape(start: LatLng, end: LatLng, preview: boolean): Rectangle | Circle;
+
+	// Updates the preview shape to the current point
+	abstract _updateShape(start: LatLng, end: LatLng): void;
+
+	_removeHooks(): void {
+		const map = this._map;
+
+		DomEvent.off(map._container, 'mousedown touchstart', this._onDown, this);
+
+		if (this._panningDisabled) {
+			map.dragging._draggable.enable();
+		}
+	}
+
+	_reset(): void {
+		if (this._shape) {
+			this._map.removeLayer(this._shape);
+		}
+
+		this._start = this._end = this._shape = undefined;
+		this._stopDragging();
+	}
+
+	_onDown(e: MouseEvent | TouchEvent): void {
+		if ('touches' in e ? e.touches.length !== 1 : e.button !== 0) { return; }
+
+		// Keep the browser from selecting text and emulating mouse events for touches
+		DomEvent.preventDefault(e);
+		DomUtil.disableTextSelection();
+
+		this._start = eventLatLng(this._map, e);
+
+		DomEvent.on(document, {
+			'mousemove touchmove': this._onMove,
+			'mouseup touchend touchcancel': this._onUp,
+		}, this);
+	}
+
+	_onMove(e: MouseEvent | TouchEvent): void {
+		const end = eventLatLng(this._map, e);
+
+		if (!end || !this._start) { return; }
+
+		this._end = end;
+
+		if (this._shape) {
+			this._updateShape(this._start, end);
+		} else {
+			this._shape = this._createShape(this._start, end, true);
+			this._map.addLayer(this._shape);
+		}
+
+		this._updateHint(this._map.latLngToContainerPoint(end));
+	}
+
+	_onUp(): void {
+		const { _start: start, _end: end } = this;
+
+		this._stopDragging();
+
+		if (start && end && !start.equals(end)) {
+			this._finish(this._createShape(start, end, false));
+		} else {
+			this._reset();
+		}
+	}
+
+	_stopDragging(): void {
+		DomUtil.enableTextSelection();
+
+		DomEvent.off(document, {
+			'mousemove touchmove': this._onMove,
+			'mouseup touchend touchcancel': this._onUp,
+		}, this);
+	}
+
+}
+
+export interface DrawRectangleOptions extends DrawOptions {
+	/** Options of the created rectangles, which are also used for the preview. None by default. */
+	style: Partial<PathOptions>;
+}
+
+/**
+ * Lets the user draw a new `Rectangle` by dragging from one corner to the opposite one.
+ * The hint shows the area of the rectangle.
+ */
+export class DrawRectangle extends DrawByDragging {
+
+	declare options: DrawRectangleOptions;
+
+	declare _shape: Rectangle | undefined;
+
+	constructor(map: Map, options?: Partial<DrawRectangleOptions>) {
+		super(map, options);
+
+		Util.setOptions(this, options, {
+			style: {},
+		});
+	}
+
+	_createShape(start: LatLng, end: LatLng, preview: boolean): Rectangle {
+		return new Rectangle(new LatLngBounds(start, end), preview
+			? { ...this.options.style, interactive: false }
+			: this.options.style);
+	}
+
+	_updateShape(start: LatLng, end: LatLng): void {
+		this._shape!.setBounds(new LatLngBounds(start, end));
+	}
+
+	_hintText(): string {
+		const { _start: start, _end: end } = this;
+
+		if (!start || !end) {
+			return 'Click and drag to draw a rectangle.';
+		}
+
+		const
+			bounds = new LatLngBounds(start, end),
+			area = this._map.distance(bounds.getNorthWest(), bounds.getNorthEast()) *
+				this._map.distance(bounds.getNorthWest(), bounds.getSouthWest());
+
+		return `Release to finish the rectangle. Area: ${formatArea(area)}`;
+	}
+
+}
+
+export interface DrawCircleOptions extends DrawOptions {
+	/** Options of the created circles, which are also used for the preview. None by default. */
+	style: Partial<CircleMarkerOptions>;
+}
+
+/**
+ * Lets the user draw a new `Circle` by dragging from its center outwards. The hint shows
+ * the radius of the circle.
+ */
+export class DrawCircle extends DrawByDragging {
+
+	declare options: DrawCircleOptions;
+
+	declare _shape: Circle | undefined;
+
+	constructor(map: Map, options?: Partial<DrawCircleOptions>) {
+		super(map, options);
+
+		Util.setOptions(this, options, {
+			style: {},
+		});
+	}
+
+	_createShape(start: LatLng, end: LatLng, preview: boolean): Circle {
+		return new Circle(start, {
+			...this.options.style,
+			...(preview && { interactive: false }),
+			radius: this._map.distance(start, end),
+		});
+	}
+
+	_updateShape(start: LatLng, end: LatLng): void {
+		this._shape!.setRadius(this._map.distance(start, end));
+	}
+
+	_hintText(): string {
+		const { _start: start, _end: end } = this;
+
+		if (!start || !end) {
+			return 'Click and drag from the center to draw a circle.';
+		}
+
+		return `Release to finish the circle. Radius: ${formatLength(this._map.distance(start, end))}`;
+	}
+
+}
+
+// Returns the latlng of a mouse or touch event, or `undefined` for a touch event without
+// touches (i.e. the last finger was lifted)
+function eventLatLng(map: Map, e: MouseEvent | TouchEvent): LatLng | undefined {
+	const first = 'touches' in e ? e.touches[0] : e;
+	return first && map.mouseEventToLatLng(first);
+}
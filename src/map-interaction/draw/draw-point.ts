@@ -0,0 +1,104 @@
+import { Util } from '../../core';
+import type { LatLng } from '../../geog';
+import type { Map } from '../../map';
+import { Marker, type Icon } from '../../map-elem/marker';
+import type { MarkerOptions } from '../../map-elem/marker/Marker.js';
+import { CircleMarker, type CircleMarkerOptions } from '../../map-elem/vector';
+import { DrawBase, type DrawOptions } from './_draw-base.js';
+
+/**
+ * Base class for the drawing tools which create a layer at the point the user clicks
+ * (or taps) on the map.
+ */
+export abstract class DrawPoint extends DrawBase {
+
+	constructor(map: Map, options?: Partial<DrawOptions>) {
+		super(map, options);
+
+		map.on('click', this._onClick, this);
+	}
+
+	abstract _createLayer(latlng: LatLng): Marker | CircleMarker;
+
+	_removeHooks(): void {
+		this._map.off('click', this._onClick, this);
+	}
+
+	_reset(): void {
+		// There is nothing in progress until the user clicks
+	}
+
+	_onClick(e: { latlng: LatLng }): void {
+		this._finish(this._createLayer(e.latlng));
+	}
+
+}
+
+export interface DrawMarkerOptions extends DrawOptions {
+	/** Options of the created markers. None by default. */
+	markerOptions: Partial<MarkerOptions>;
+}
+
+/**
+ * Lets the user place a new `Marker` by clicking on the map. Every marker needs its own
+ * icon, so you pass a function creating them.
+ *
+ * ```js
+ * new DrawMarker(map, () => pinIcon()).on('created', e => map.addLayer(e.layer));
+ * ```
+ */
+export class DrawMarker extends DrawPoint {
+
+	declare options: DrawMarkerOptions;
+
+	constructor(
+		map: Map,
+		public _createIcon: () => Icon,
+		options?: Partial<DrawMarkerOptions>,
+	) {
+		super(map, options);
+
+		Util.setOptions(this, options, {
+			markerOptions: {},
+		});
+	}
+
+	_createLayer(latlng: LatLng): Marker {
+		return new Marker(latlng, this._createIcon(), this.options.markerOptions);
+	}
+
+	_hintText(): string {
+		return 'Click to place a marker.';
+	}
+
+}
+
+export interface DrawCircleMarkerOptions extends DrawOptions {
+	/** Options of the created circle markers, e.g. their `radius` and style. None by default. */
+	style: Partial<CircleMarkerOptions>;
+}
+
+/**
+ * Lets the user place a new `CircleMarker` by clicking on the map.
+ */
+export class DrawCircleMarker extends DrawPoint {
+
+	declare options: DrawCircleMarkerOptions;
+
+	constructor(map: Map, options?: Partial<DrawCircleMarkerOptions>) {
+		super(map, options);
+
+		Util.setOptions(this, options, {
+			style: {},
+		});
+	}
+
+	_createLayer(latlng: LatLng): CircleMarker {
+		return new CircleMarker(latlng, this.options.style);
+	}
+
+	_hintText(): string {
+		return 'Click to place a circle marker.';
+	}
+
+}
@@ -0,0 +1,245 @@
+import { Browser, Util } from '../../core';
+import { DomUtil } from '../../dom';
+import type { LatLng } from '../../geog';
+import { GeogUtil } from '../../geog/util';
+import { Point } from '../../geom';
+import type { Map } from '../../map';
+import { Icon, Marker } from '../../map-elem/marker';
+import { Polygon, Polyline, type PolylineOptions } from '../../map-elem/vector';
+import { DrawBase, formatArea, formatLength, isEditable, type DrawOptions } from './_draw-base.js';
+
+export interface DrawPolylineOptions extends DrawOptions {
+	/** Options of the created shapes, which are also used for the preview. None by default. */
+	style: Partial<PolylineOptions>;
+}
+
+/**
+ * Lets the user draw a new `Polyline` by clicking (or tapping) on the map to add
+ * vertices. A dashed line follows the cursor from the last vertex, and the hint shows
+ * the length of the line. The line is finished by clicking the last vertex again or
+ * pressing `Enter`, and `Backspace` removes the last vertex.
+ */
+export class DrawPolyline extends DrawBase {
+
+	declare options: DrawPolylineOptions;
+
+	_latlngs: LatLng[] = [];
+	_vertices: Marker[] = [];
+	_shape: Polyline | undefined;
+	_guide: Polyline | undefined;
+	_cursor: LatLng | undefined;
+
+	constructor(map: Map, options?: Partial<DrawPolylineOptions>) {
+		super(map, options);
+
+		Util.setOptions(this, options, {
+			style: {},
+		});
+
+		map.on({
+			click: this._onClick,
+			mousemove: this._onMouseMove,
+		}, this);
+	}
+
+	_removeHooks(): void {
+		this._map.off({
+			click: this._onClick,
+			mousemove: this._onMouseMove,
+		}, this);
+	}
+
+	_reset(): void {
+		for (const layer of [this._shape, this._guide, ...this._vertices]) {
+			if (layer) {
+				this._map.removeLayer(layer);
+			}
+		}
+
+		this._latlngs = [];
+		this._vertices = [];
+		this._shape = undefined;
+		this._guide = undefined;
+	}
+
+	// Minimum number of vertices of a finished shape
+	_minVertices(): number {
+		return 2;
+	}
+
+	// Vertex which finishes the shape when it is clicked
+	_finishingVertex(): LatLng {
+		return this._latlngs[this._latlngs.length - 1];
+	}
+
+	_createShape(latlngs: LatLng[], options: Partial<PolylineOptions>): Polyline {
+		return new Polyline(latlngs, options);
+	}
+
+	// Returns the points the guide goes through, from the last vertex to the cursor
+	_guideLatLngs(cursor: LatLng): LatLng[] {
+		return [this._latlngs[this._latlngs.length - 1], cursor];
+	}
+
+	_hintText(): string {
+		if (!this._latlngs.length) {
+			return 'Click to start drawing a line.';
+		}
+
+		const
+			latlngs = this._cursor ? [...this._latlngs, this._cursor] : this._latlngs,
+			length = formatLength(this._length(latlngs));
+
+		return this._latlngs.length < this._minVertices()
+			? `Click to continue the line. Length: ${length}`
+			: `Click the last point to finish the line. Length: ${length}`;
+	}
+
+	_length(latlngs: LatLng[]): number {
+		let length = 0;
+
+		for (let i = 1; i < latlngs.length; i++) {
+			length += this._map.distance(latlngs[i - 1], latlngs[i]);
+		}
+
+		return length;
+	}
+
+	_onClick(e: { latlng: LatLng; containerPoint: Point }): void {
+		const vertex = this._latlngs.length && this._finishingVertex();
+
+		// Fingers are less precise than the mouse, so be more forgiving on touch screens
+		if (vertex && this._map.latLngToContainerPoint(vertex).distanceTo(e.containerPoint) <= (Browser.touch ? 20 : 10)) {
+			this._complete();
+		} else {
+			this._addVertex(e.latlng);
+			this._cursor = e.latlng;
+			this._update();
+			// Touch screens have no mousemove to place the hint
+			this._updateHint(e.containerPoint);
+		}
+	}
+
+	_onMouseMove(e: { latlng: LatLng }): void {
+		this._cursor = e.latlng;
+		this._update();
+	}
+
+	_onKeyDown(e: KeyboardEvent): void {
+		super._onKeyDown(e);
+
+		if (this._disposed || !this._latlngs.length || isEditable(e.target)) { return; }
+
+		if (e.key === 'Backspace') {
+			e.preventDefault();
+			this._removeVertex();
+		} else if (e.key === 'Enter') {
+			this._complete();
+		}
+	}
+
+	_addVertex(latlng: LatLng): void {
+		const
+			el = DomUtil.create('div', 'leaflet-marker-icon leaflet-draw-vertex'),
+			vertex = new Marker(latlng, new Icon(el, new Point(10, 10), new Point(5, 5)), {
+				// Clicks on a vertex must reach the map to finish the shape
+				interactive: false,
+				keyboard: false,
+			});
+
+		this._latlngs.push(latlng);
+		this._vertices.push(vertex);
+		this._map.addLayer(vertex);
+
+		if (!this._shape) {
+			this._shape = this._createShape(this._latlngs.slice(), { ...this.options.style, interactive: false });
+			this._map.addLayer(this._shape);
+		}
+	}
+
+	_removeVertex(): void {
+		this._latlngs.pop();
+		this._map.removeLayer(this._vertices.pop()!);
+
+		if (this._latlngs.length) {
+			this._update();
+		} else {
+			this._reset();
+			this._updateHint();
+		}
+	}
+
+	// Redraws the preview after the vertices or the cursor moved
+	_update(): void {
+		const
+			map = this._map,
+			cursor = this._cursor;
+
+		// Polygons drop a last vertex equal to the first one, so they must not share the array
+		this._shape?.setLatLngs(this._latlngs.slice());
+
+		if (cursor && this._latlngs.length) {
+			const latlngs = this._guideLatLngs(cursor);
+
+			if (this._guide) {
+				this._guide.setLatLngs(latlngs);
+			} else {
+				this._guide = new Polyline(latlngs, {
+					...this.options.style,
+					dashArray: '5, 5',
+					interactive: false,
+				});
+				map.addLayer(this._guide);
+			}
+		}
+
+		this._updateHint();
+	}
+
+	_complete(): void {
+		if (this._latlngs.length < this._minVertices()) { return; }
+
+		this._finish(this._createShape(this._latlngs.slice(), this.options.style));
+	}
+
+}
+
+/**
+ * Lets the user draw a new `Polygon` like `DrawPolyline` does for lines. The dashed guide
+ * shows both edges the next vertex would add, and the hint shows the area of the polygon.
+ * The polygon is closed by clicking its first vertex or pressing `Enter`.
+ */
+export class DrawPolygon extends DrawPolyline {
+
+	_minVertices(): number {
+		return 3;
+	}
+
+	_finishingVertex(): LatLng {
+		return this._latlngs[0];
+	}
+
+	_createShape(latlngs: LatLng[], options: Partial<PolylineOptions>): Polyline {
+		return new Polygon(latlngs, options);
+	}
+
+	_guideLatLngs(cursor: LatLng): LatLng[] {
+		const latlngs = this._latlngs;
+		return [latlngs[latlngs.length - 1], cursor, latlngs[0]];
+	}
+
+	_hintText(): string {
+		if (!this._latlngs.length) {
+			return 'Click to start drawing a shape.';
+		}
+
+		if (this._latlngs.length < this._minVertices()) {
+			return 'Click to continue the shape.';
+		}
+
+		const latlngs = this._cursor ? [...this._latlngs, this._cursor] : this._latlngs;
+
+		return `Click the first point to close the shape. Area: ${formatArea(GeogUtil.sphericalArea(latlngs))}`;
+	}
+
+}
@@ -0,0 +1,4 @@
+export { DrawBase, type DrawOptions } from './_draw-base.js';
+export * from './draw-drag.js';
+export * from './draw-point.js';
+export * from './draw-polyline.js';
@@ -3,6 +3,7 @@ import { DomEvent, DomUtil, PosAnimation } from '../dom';
 import { LatLng, LatLngBounds } from '../geog';
 import { EPSG3857 } from '../geog/crs';
 import { Bounds, Point } from '../geom';
+import type { ControlPosition } from '../control';
 import type { Layer } from '../map-elem/Layer.js';
 import type { Path, Renderer } from '../map-elem/vector';
 import type { FitBoundsOptions, InvalidateSizeOptions, MapOptions, PanOptions, ZoomOptions, ZoomPanOptions } from './map-options';
@@ -32,6 +33,15 @@ import type { FitBoundsOptions, InvalidateSizeOptions, MapOptions, PanOptions, Z
  * 						`ImageOverlay`s and `VideoOverlay`s
  * @pane marker (600): Pane for `Icon`s of `Marker`s
  * @pane tooltip (650): Pane for `Tooltip`s.
+ * @pane popup (700): Pane for `Popup`s (created when the first popup is opened).
+ *
+ * ## Controls
+ *
+ * Controls live in a separate container on top of all panes, so they are not affected by
+ * panning or zooming. The container and the element for each `ControlPosition` (corners
+ * as well as the top/bottom center) are only created once a control is added there.
+ * Controls in a top position stack downwards in the order they were added, and controls
+ * in a bottom position stack upwards, so the first control is always closest to the edge.
  * 
  * @event click: MouseEvent
  * Fired when the user clicks (or taps) the map.
@@ -71,6 +81,8 @@ export class Map extends Evented implements Disposable {
 	_panes: Dict<HTMLElement> = Object.create(null);
 	_targets: Dict<Evented> = Object.create(null);
 	_layers: Dict<Layer> = Object.create(null);
+	_controlCorners: Partial<Record<ControlPosition, HTMLElement>> = Object.create(null);
+	_controlContainer: HTMLElement | undefined;
 	_rootPane: HTMLElement;
 	_zoomAnimated: boolean;
 
@@ -618,6 +630,12 @@ export class Map extends Evented implements Disposable {
 			pane.remove();
 		}
 
+		// Controls remove themselves when the map fires 'dispose', so only the (now empty)
+		// containers remain
+		this._controlContainer?.remove();
+		this._controlContainer = undefined;
+		this._controlCorners = Object.create(null);
+
 		this._renderer = undefined;
 		this.off();
 	}
@@ -643,6 +661,28 @@ export class Map extends Evented implements Disposable {
 		);
 	}
 
+	/**
+	 * Looks up the element holding the controls at the given position, creating it (and the
+	 * control container which sits above all of the map panes) if necessary. Used by
+	 * [`control.addTo(map)`](#control-addto).
+	 */
+	controlCorner(position: ControlPosition): HTMLElement {
+		const
+			container = this._controlContainer ||= DomUtil.create(
+				'div',
+				'leaflet-control-container',
+				this._container,
+			),
+			vertical = position.startsWith('top') ? 'top' : 'bottom',
+			horizontal = position.slice(vertical.length);
+
+		return this._controlCorners[position] ||= DomUtil.create(
+			'div',
+			`leaflet-${vertical} leaflet-${horizontal}`,
+			container,
+		);
+	}
+
 	// @section Methods for Getting Map State
 
 	// Returns the geographical center of the map view
@@ -662,6 +702,65 @@ export class Map extends Evented implements Disposable {
 		return new LatLngBounds(sw, ne);
 	}
 
+	// Returns geographical bounds which enclose the whole map view, unlike `getBounds()`
+	// in CRSs where the view isn't a rectangle of latitudes and longitudes (e.g. polar
+	// projections). The view's edges are sampled at `samplesPerEdge` points. When the view
+	// contains a pole, the bounds span all longitudes, from the pole to the latitude of the
+	// edge furthest from it. When it crosses the antimeridian, longitudes continue beyond
+	// 180 (or -180) degrees.
+	getEnclosingBounds(samplesPerEdge = 16): LatLngBounds {
+		const
+			{ min, max } = this.getPixelBounds(),
+		    corners = [min, new Point(max.x, min.y), max, new Point(min.x, max.y)],
+		    bounds = new LatLngBounds();
+
+		let
+			first: number | undefined,
+		    prev: number | undefined,
+		    // Sum of the longitude steps around the edges, ±360 if they go around a pole
+		    winding = 0;
+
+		for (let i = 0; i < 4; i++) {
+			const
+				from = corners[i],
+			    to = corners[(i + 1) % 4];
+
+			for (let j = 0; j < samplesPerEdge; j++) {
+				const latlng = this.unproject(from.add(to.subtract(from).multiplyBy(j / samplesPerEdge)));
+
+				// Points outside of the domain of the projection
+				if (isNaN(latlng.lat) || isNaN(latlng.lng)) { continue; }
+
+				if (prev === undefined) {
+					first = latlng.lng;
+				} else {
+					// Longitudes are unwrapped to be continuous along the edges
+					latlng.lng += Math.round((prev - latlng.lng) / 360) * 360;
+					winding += latlng.lng - prev;
+				}
+
+				prev = latlng.lng;
+				bounds.extend(latlng);
+			}
+		}
+
+		if (first !== undefined) {
+			// Closes the loop back to the first sample
+			winding += first + Math.round((prev! - first) / 360) * 360 - prev!; // TODO: null safety
+		}
+
+		if (Math.abs(winding) > 180) {
+			const pole = this.getCenter().lat > 0 ? 90 : -90;
+
+			return new LatLngBounds(
+				new LatLng(Math.min(pole, bounds.getSouth()), -180),
+				new LatLng(Math.max(pole, bounds.getNorth()), 180),
+			);
+		}
+
+		return bounds;
+	}
+
 	// Returns the maximum zoom level on which the given bounds fit to the map
 	// view in its entirety. If `inside` (optional) is set to `true`, the method
 	// instead returns the minimum zoom level on which the map view fits into
@@ -0,0 +1,156 @@
+import { describe, expect, test } from 'vitest';
+import { customCRS } from '../../src/geog/crs';
+import { LonLat } from '../../src/geog/projection';
+import { Bounds, Point } from '../../src/geom';
+import type { Map } from '../../src/map';
+import { GridLayer } from '../../src/map-elem/tile/GridLayer';
+
+// The Dutch national tile grid of the doc comment. Only its origin, resolutions and bounds
+// matter here, so it gets a stand-in projection.
+const
+	resolutions = [3440.64, 1720.32, 860.16, 430.08, 215.04, 107.52, 53.76, 26.88, 13.44],
+	bounds = new Bounds(new Point(-285401.92, 22598.08), new Point(595401.92, 903401.92)),
+	rd = customCRS('EPSG:28992', LonLat, { origin: new Point(-285401.92, 903401.92), resolutions, bounds });
+
+describe('customCRS', () => {
+	test('has the exact scales of the resolutions at integer zooms', () => {
+		resolutions.forEach((r, zoom) => {
+			expect(rd.scale(zoom)).toBe(1 / r);
+			expect(rd.zoom(1 / r)).toBe(zoom);
+		});
+	});
+
+	test('interpolates the scale geometrically at fractional zooms', () => {
+		expect(rd.scale(2.5)).toBeCloseTo(Math.sqrt(1 / 860.16 * 1 / 430.08), 15);
+		expect(rd.scale(2.25) / rd.scale(2)).toBeCloseTo(Math.pow(2, 0.25), 12);
+
+		// A pyramid whose levels are not twice apart
+		const crs = customCRS('test', LonLat, { resolutions: [1000, 300, 100], bounds });
+
+		expect(crs.scale(0.5)).toBeCloseTo(1 / Math.sqrt(1000 * 300), 15);
+		expect(crs.scale(1.5)).toBeCloseTo(1 / Math.sqrt(300 * 100), 15);
+	});
+
+	test('extrapolates past the first and last resolutions with the ratio of the two nearest', () => {
+		expect(rd.scale(9)).toBeCloseTo(2 / 13.44, 15);
+		expect(rd.scale(10.5)).toBeCloseTo(Math.pow(2, 2.5) / 13.44, 15);
+		expect(rd.scale(-1)).toBeCloseTo(1 / 6881.28, 15);
+
+		const crs = customCRS('test', LonLat, { resolutions: [1000, 300, 100], bounds });
+
+		expect(crs.scale(3)).toBeCloseTo(3 / 100, 15);
+		expect(crs.scale(-1)).toBeCloseTo(0.3 / 1000, 15);
+	});
+
+	test('zoom() is the inverse of scale()', () => {
+		for (let zoom = -2; zoom <= 11; zoom += 0.25) {
+			expect(rd.zoom(rd.scale(zoom))).toBeCloseTo(zoom, 10);
+		}
+	});
+
+	test('has square projected bounds of 256 pixels at zoom 0, doubling with every zoom', () => {
+		expect(rd.infinite).toBe(false);
+
+		for (const zoom of [0, 1, 4, 8]) {
+			const { min, max } = rd.getProjectedBounds(zoom)!;
+			const size = 256 * Math.pow(2, zoom);
+
+			expect(min.x).toBeCloseTo(0, 6);
+			expect(min.y).toBeCloseTo(0, 6);
+			expect(max.x).toBeCloseTo(size, 6);
+			expect(max.y).toBeCloseTo(size, 6);
+		}
+	});
+
+	test('is infinite without bounds', () => {
+		const crs = customCRS('test', LonLat, { resolutions });
+
+		expect(crs.infinite).toBe(true);
+		expect(crs.getProjectedBounds(0)).toBeUndefined();
+	});
+
+	test('needs decreasing resolutions', () => {
+		expect(() => customCRS('test', LonLat, {})).toThrow();
+		expect(() => customCRS('test', LonLat, { resolutions: [100, 200] })).toThrow();
+		expect(() => customCRS('test', LonLat, { resolutions: [100, 100] })).toThrow();
+	});
+});
+
+describe('GridLayer with a custom CRS', () => {
+	// Levels 1.5 and 3 times apart
+	const crs = customCRS('test', LonLat, { resolutions: [450, 300, 100], bounds });
+
+	function layerWithTiles(...keys: [number, number, number, boolean][]): GridLayer {
+		const layer = new GridLayer();
+
+		layer._map = {
+			getZoomScale: (toZoom: number, fromZoom: number) => crs.scale(toZoom) / crs.scale(fromZoom),
+		} as unknown as Map;
+
+		for (const [x, y, z, active] of keys) {
+			const coords = new Point(x, y);
+
+			coords.z = z;
+			layer._tiles[layer._tileCoordsToKey(coords)] = {
+				el: document.createElement('div'),
+				coords,
+				current: false,
+				requested: 0,
+				loaded: active ? 1 : 0,
+				active,
+				retain: false,
+			};
+		}
+
+		return layer;
+	}
+
+	function retained(layer: GridLayer): string[] {
+		return Object.entries(layer._tiles).filter(([, tile]) => tile.retain).map(([key]) => key).sort();
+	}
+
+	test('finds the tiles overlapping a tile at other zoom levels', () => {
+		const layer = layerWithTiles();
+		const range = (x: number, y: number, z: number, toZoom: number) => {
+			const { min, max } = layer._overlappingTiles(x, y, z, toZoom);
+			return [min.x, min.y, max.x, max.y];
+		};
+
+		// 1.5 times apart: tiles straddle two parents, and have two or three children
+		expect(range(0, 0, 1, 0)).toEqual([0, 0, 0, 0]);
+		expect(range(1, 2, 1, 0)).toEqual([0, 1, 1, 1]);
+		expect(range(0, 0, 0, 1)).toEqual([0, 0, 1, 1]);
+		expect(range(1, 0, 0, 1)).toEqual([1, 0, 2, 1]);
+
+		// 3 times apart: tiles which only touch the edge of another one don't overlap it
+		expect(range(2, 3, 2, 1)).toEqual([0, 1, 0, 1]);
+		expect(range(1, 1, 1, 2)).toEqual([3, 3, 5, 5]);
+
+		// Several levels apart
+		expect(range(1, 0, 0, 2)).toEqual([4, 0, 8, 4]);
+	});
+
+	test('retains all the parents of a tile which straddles them', () => {
+		const layer = layerWithTiles([0, 0, 0, true], [1, 0, 0, true]);
+
+		expect(layer._retainParent(1, 0, 1, 0)).toBe(true);
+		expect(retained(layer)).toEqual(['0:0:0', '1:0:0']);
+	});
+
+	test('is not covered by its parents if one of them is missing', () => {
+		const layer = layerWithTiles([0, 0, 0, true]);
+
+		expect(layer._retainParent(1, 0, 1, 0)).toBe(false);
+		expect(retained(layer)).toEqual(['0:0:0']);
+	});
+
+	test('retains the children of a tile, or theirs where they are missing', () => {
+		const layer = layerWithTiles([1, 0, 1, true], [2, 1, 1, true], [3, 0, 1, true], [6, 0, 2, true], [9, 0, 2, true]);
+
+		layer._retainChildren(1, 0, 0, 2);
+
+		// (6, 0, 2) is a child of the missing (2, 0, 1); (3, 0, 1) and its child
+		// (9, 0, 2) are next to the tile
+		expect(retained(layer)).toEqual(['1:0:1', '2:1:1', '6:0:2']);
+	});
+});
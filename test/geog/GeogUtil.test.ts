@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'vitest';
+import { LatLng } from '../../src/geog';
+import { GeogUtil } from '../../src/geog/util';
+
+// Reference values computed with GeographicLib 2.1 (Karney), on WGS84:
+// [lat1, lng1, lat2, lng2, distance, initial bearing, final bearing]
+const inverseCases: Record<string, readonly (readonly number[])[]> = {
+	short: [
+		[10, 20, 10, 20.0001, 10.963936406789703, 89.99999131759111, 90.00000868240889],
+		[45, 0, 45, 5e-05, 3.942341754698844, 89.99998232233047, 90.00001767766953],
+		[-1.63, -135.9, -1.63, -135.90001, 1.112747476817464, 269.99999985777487, 270.00000014222513],
+		[0, 0, 1e-05, 0, 1.1057427582162824, 0.0, 0.0],
+		[51.5, -0.12, 51.5001, -0.1201, 13.114984010304463, 328.0301118563855, 328.0300335955154],
+		[-33.86, 151.21, -33.87, 151.22, 1444.4778083893855, 140.1675399720607, 140.16196759223666],
+		[89.99, 0, 89.99, 180, 2233.8795909543887, 0.0, 180.0],
+		[-60, -70, -60.001, -69.999, 124.6043574605528, 153.39712830673452, 153.3962622769674],
+		[37.77, -122.42, 37.8, -122.27, 13626.336828939402, 75.80986593544883, 75.9017709971147],
+		[64.1, -21.9, 64.1, -21.89, 487.56792649765765, 89.99550221110304, 90.00449778889696],
+	],
+	sameLatitude: [
+		[60, 0, 60, 90, 4621284.365796646, 49.1043929908944, 130.89560700910562],
+		[-45, 10, -45, 120, 7893448.332093098, 135.29575077489034, 44.70424922510967],
+		[30, -170, 30, 170, 1927254.5933403063, 275.0385632932257, 264.9614367067743],
+		[75, -100, 75, 60, 3297994.5170291224, 10.345165677382745, 169.65483432261726],
+		[-5, 0, -5, 179, 18892901.58456024, 174.56922689484094, 5.430773105159066],
+		[1, 100, 1, -100, 17799932.36946844, 84.20928565617696, 95.79071434382304],
+		[-89, 0, -89, 179, 223379.22304440773, 179.49992383994993, 0.50007616005008],
+	],
+	equatorial: [
+		[0, 0, 0, 90, 10018754.171394622, 90.0, 90.0],
+		[0, -179, 0, 179, 222638.98158654713, 270.0, 270.0],
+		[0, 0, 0, 179.3, 19959584.699233953, 90.0, 90.0],
+		[0, 10, 0, 10.00001, 1.1131949078905927, 90.0, 90.0],
+	],
+	nearlyAntipodal: [
+		[0, 0, 0, 179.5, 19980861.908890963, 55.966495140158635, 124.03350485984137],
+		[0, 0, 0, 179.9, 20003008.42150941, 9.545672694738908, 170.4543273052611],
+		[-4.574, 98.538, 4.574, 278.26, 19996798.411349952, 152.45731593648276, 27.542684063517232],
+		[84.75, 164.346, -84.75, 344.375, 20003853.830385163, 328.4092976305793, 211.59070236942065],
+		[32.238034988972885, -99.68831129477388, -32.23803498797289, 79.6974131434616, 19970102.458439108, 90.02758911963225, 90.02759042304217],
+		[-17.500941881405282, -56.19541982776151, 17.594296764869497, 123.11782743626503, 19958509.70234777, 61.619596919263415, 118.32603337114564],
+		[-0.5015186682010295, 75.27731540690442, -0.2876788434143869, 254.38666756485688, 19886623.304203667, 145.14438718283503, 34.85459399324877],
+		[10, 0, -10.000000000001, 179.8, 20000239.437724564, 160.32242423033674, 19.67757576966332],
+		[-30, 20, 30.001, -160.3, 19995534.049057633, 34.9139097728915, 145.08568926911565],
+		[0.5, 0, -0.5, 179.7, 19995624.889961265, 29.83001097345066, 150.16998902654933],
+	],
+	general: [
+		[51.4778, -0.0015, 40.6413, -73.7781, 5584539.2695721295, 288.257137681659, 231.25732107099526],
+		[-36.85, 174.76, -33.45, -70.67, 9690730.300284376, 130.58676995608482, 46.75806493495794],
+		[35.68, 139.77, -22.91, -43.17, 18561111.249195553, 11.754891882036627, 169.6437069475566],
+		[-90, 0, 90, 0, 20003931.458625447, 0.0, 0.0],
+		[90, 0, 10, 45, 8896110.896078352, 135.0, 180.0],
+		[-12.5, 45.2, 67.3, -120.8, 13831574.017421046, 353.5018150815372, 196.5910650539135],
+	],
+};
+
+// [lat1, lng1, bearing, distance, lat2, lng2, final bearing]
+const directCases: readonly (readonly number[])[] = [
+	[10, 20, 45, 10, 10.000063929210583, 20.00006449389099, 45.00001119928207],
+	[51.5, -0.12, 270, 1000000, 50.62607136976657, -14.34014170536111, 258.91621730919337],
+	[-36.85, 174.76, 120, 10000000, -23.679747208451666, -76.38160433666809, 49.21936888240627],
+	[0, 0, 90, 19000000, 0.0, 170.67990398270908, 90.0],
+	[-80, 30, 200, 5000000, -54.457068537639636, -125.496530095222, 354.12991300801997],
+	[45, 170, 60, 3000000, 52.25609822044189, -150.21393008604605, 90.44446267418243],
+	[89, 0, 135, 500, 88.99682962119054, 0.18079921155586076, 135.18077158770683],
+];
+
+// Difference between two angles, in degrees
+function angleDiff(a: number, b: number): number {
+	return Math.abs((a - b + 540) % 360 - 180);
+}
+
+describe('geodesicInverse', () => {
+	for (const [group, cases] of Object.entries(inverseCases)) {
+		test.each(cases)(`${group}: (%d, %d) to (%d, %d)`, (lat1, lng1, lat2, lng2, distance, bearing1, bearing2) => {
+			const result = GeogUtil.geodesicInverse(new LatLng(lat1, lng1), new LatLng(lat2, lng2));
+
+			expect(Math.abs(result.distance - distance)).toBeLessThan(1e-4);
+
+			// Not between nearly antipodal points, where bearings change a lot with the
+			// positions (and the mirror image of a geodesic along the equator is as short)
+			if (group !== 'nearlyAntipodal') {
+				expect(angleDiff(result.initialBearing, bearing1)).toBeLessThan(1e-8);
+				expect(angleDiff(result.finalBearing, bearing2)).toBeLessThan(1e-8);
+			}
+		});
+	}
+
+	test('is zero between the same point given with different longitudes', () => {
+		const result = GeogUtil.geodesicInverse(new LatLng(10, 224.093), new LatLng(10, -135.907));
+
+		expect(result.distance).toBeLessThan(1e-6);
+	});
+});
+
+describe('geodesicDirect', () => {
+	test.each(directCases)('(%d, %d) with bearing %d for %d m', (lat1, lng1, bearing, distance, lat2, lng2, bearing2) => {
+		const result = GeogUtil.geodesicDirect(new LatLng(lat1, lng1), bearing, distance);
+
+		// 1e-9 degrees is about 0.1 mm
+		expect(Math.abs(result.latlng.lat - lat2)).toBeLessThan(1e-9);
+		expect(angleDiff(result.latlng.lng, lng2) * Math.cos(lat2 * Math.PI / 180)).toBeLessThan(1e-9);
+		expect(Math.abs(result.latlng.lng - lng1)).toBeLessThanOrEqual(180);
+		expect(angleDiff(result.finalBearing, bearing2)).toBeLessThan(1e-8);
+	});
+});
+
+describe('geodesicPath', () => {
+	test('goes across the antimeridian without wrapping', () => {
+		const path = GeogUtil.geodesicPath(new LatLng(-36.85, 174.76), new LatLng(-33.45, -70.67), 8);
+
+		expect(path).toHaveLength(9);
+		expect(path[8].lng).toBeCloseTo(289.33, 9);
+
+		for (let i = 1; i < path.length; i++) {
+			expect(path[i].lng).toBeGreaterThan(path[i - 1].lng);
+		}
+	});
+});
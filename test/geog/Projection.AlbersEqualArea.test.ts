@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'vitest';
+import { Clarke1866, LatLng } from '../../src/geog';
+import { albersEqualArea } from '../../src/geog/projection';
+
+describe('albersEqualArea', () => {
+	const conus = albersEqualArea({
+		ellipsoid: Clarke1866,
+		standardParallels: [29.5, 45.5],
+		latitudeOfOrigin: 23,
+		centralMeridian: -96,
+	});
+
+	// Numerical example of Snyder, Map Projections: A Working Manual (1987)
+	test('projects the example of Snyder', () => {
+		const point = conus.project(new LatLng(35, -75));
+
+		expect(point.x).toBeCloseTo(1885472.7, 1);
+		expect(point.y).toBeCloseTo(1535925.0, 1);
+	});
+
+	test('unprojects what it projects', () => {
+		for (let lat = -80; lat <= 80; lat += 20) {
+			for (let lng = -170; lng <= 170; lng += 34) {
+				const latlng = conus.unproject(conus.project(new LatLng(lat, lng)));
+
+				expect(latlng.lat).toBeCloseTo(lat, 9);
+				expect(latlng.lng).toBeCloseTo(lng, 9);
+			}
+		}
+	});
+});
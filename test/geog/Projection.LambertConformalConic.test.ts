@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'vitest';
+import { Clarke1866, LatLng } from '../../src/geog';
+import { lambertConformalConic } from '../../src/geog/projection';
+
+const
+	usFoot = 1200 / 3937,
+	dms = (d: number, m: number, s = 0) => d + m / 60 + s / 3600;
+
+// Examples of the EPSG Guidance Note 7-2 (IOGP Publication 373-7-2)
+describe('lambertConformalConic', () => {
+	test('projects the example with two standard parallels (Texas South Central)', () => {
+		const
+			texas = lambertConformalConic({
+				ellipsoid: Clarke1866,
+				standardParallels: [dms(28, 23), dms(30, 17)],
+				latitudeOfOrigin: dms(27, 50),
+				centralMeridian: -99,
+				falseEasting: 2000000 * usFoot,
+			}),
+			latlng = new LatLng(28.5, -96),
+			point = texas.project(latlng),
+			back = texas.unproject(point);
+
+		expect(point.x / usFoot).toBeCloseTo(2963503.91, 2);
+		expect(point.y / usFoot).toBeCloseTo(254759.80, 2);
+		expect(back.lat).toBeCloseTo(latlng.lat, 10);
+		expect(back.lng).toBeCloseTo(latlng.lng, 10);
+	});
+
+	test('projects the example with one standard parallel (Jamaica)', () => {
+		const
+			jamaica = lambertConformalConic({
+				ellipsoid: Clarke1866,
+				standardParallels: [18],
+				centralMeridian: -77,
+				falseEasting: 250000,
+				falseNorthing: 150000,
+			}),
+			point = jamaica.project(new LatLng(dms(17, 55, 55.8), -dms(76, 56, 37.26)));
+
+		expect(point.x).toBeCloseTo(255966.58, 2);
+		expect(point.y).toBeCloseTo(142493.51, 2);
+	});
+
+	test('unprojects longitudes within [-180, 180]', () => {
+		const
+			conic = lambertConformalConic({ standardParallels: [33, 45], centralMeridian: -99 }),
+			latlng = conic.unproject(conic.project(new LatLng(45, 170)));
+
+		expect(latlng.lat).toBeCloseTo(45, 10);
+		expect(latlng.lng).toBeCloseTo(170, 10);
+	});
+});
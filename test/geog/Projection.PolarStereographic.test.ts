@@ -0,0 +1,43 @@
+import { describe, expect, test } from 'vitest';
+import { LatLng } from '../../src/geog';
+import { EPSG3413 } from '../../src/geog/crs';
+import { polarStereographic } from '../../src/geog/projection';
+
+// Examples of the EPSG Guidance Note 7-2 (IOGP Publication 373-7-2), on WGS84
+describe('polarStereographic', () => {
+	test('projects the example of variant A (Universal Polar Stereographic North)', () => {
+		const
+			ups = polarStereographic({ scaleFactor: 0.994, falseEasting: 2000000, falseNorthing: 2000000 }),
+			point = ups.project(new LatLng(73, 44)),
+			latlng = ups.unproject(point);
+
+		expect(point.x).toBeCloseTo(3320416.75, 2);
+		expect(point.y).toBeCloseTo(632668.43, 2);
+		expect(latlng.lat).toBeCloseTo(73, 10);
+		expect(latlng.lng).toBeCloseTo(44, 10);
+	});
+
+	test('projects the example of variant B (Australian Antarctic)', () => {
+		const
+			antarctic = polarStereographic({
+				latitudeOfTrueScale: -71,
+				centralMeridian: 70,
+				falseEasting: 6000000,
+				falseNorthing: 6000000,
+			}),
+			point = antarctic.project(new LatLng(-75, 120)),
+			latlng = antarctic.unproject(point);
+
+		expect(point.x).toBeCloseTo(7255380.79, 2);
+		expect(point.y).toBeCloseTo(7053389.56, 2);
+		expect(latlng.lat).toBeCloseTo(-75, 10);
+		expect(latlng.lng).toBeCloseTo(120, 10);
+	});
+
+	test('unprojects longitudes within [-180, 180]', () => {
+		const latlng = EPSG3413.unproject(EPSG3413.project(new LatLng(80, 150)));
+
+		expect(latlng.lat).toBeCloseTo(80, 10);
+		expect(latlng.lng).toBeCloseTo(150, 10);
+	});
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+import { Airy1830, LatLng } from '../../src/geog';
+import { utmCRS } from '../../src/geog/crs';
+import { transverseMercator, utmProjection, utmZone } from '../../src/geog/projection';
+import { Point } from '../../src/geom';
+
+describe('transverseMercator', () => {
+	// Example of the Ordnance Survey guide "A guide to coordinate systems in Great Britain"
+	// (Annex C), on the British National Grid
+	const
+		nationalGrid = transverseMercator({
+			ellipsoid: Airy1830,
+			centralMeridian: -2,
+			latitudeOfOrigin: 49,
+			scaleFactor: 0.9996012717,
+			falseEasting: 400000,
+			falseNorthing: -100000,
+		}),
+		caister = new LatLng(52 + 39 / 60 + 27.2531 / 3600, 1 + 43 / 60 + 4.5177 / 3600);
+
+	test('projects the Ordnance Survey example to the millimeter', () => {
+		const point = nationalGrid.project(caister);
+
+		expect(Math.abs(point.x - 651409.903)).toBeLessThan(1e-3);
+		expect(Math.abs(point.y - 313177.270)).toBeLessThan(1e-3);
+	});
+
+	test('unprojects the Ordnance Survey example to the millimeter', () => {
+		const latlng = nationalGrid.unproject(new Point(651409.903, 313177.270));
+
+		// A millimeter is about 1e-8 degrees
+		expect(Math.abs(latlng.lat - caister.lat)).toBeLessThan(1e-8);
+		expect(Math.abs(latlng.lng - caister.lng)).toBeLessThan(1e-8);
+	});
+});
+
+describe('utmProjection', () => {
+	test('projects a point of the central meridian of zone 31N', () => {
+		const point = utmProjection(31).project(new LatLng(45, 3));
+
+		expect(point.x).toBe(500000);
+		expect(Math.abs(point.y - 4982950.40)).toBeLessThan(5e-3);
+	});
+
+	test('unprojects what it projects across the zone', () => {
+		const zone = utmProjection(33, true);
+
+		for (let lat = -80; lat <= 0; lat += 10) {
+			for (let lng = 9; lng <= 21; lng += 1.5) {
+				const
+					point = zone.project(new LatLng(lat, lng)),
+					back = zone.project(zone.unproject(point));
+
+				expect(Math.hypot(back.x - point.x, back.y - point.y)).toBeLessThan(1e-6);
+			}
+		}
+	});
+
+	test('unprojects longitudes within [-180, 180]', () => {
+		const
+			zone = utmProjection(60),
+			latlng = zone.unproject(zone.project(new LatLng(-10, -178)));
+
+		expect(latlng.lat).toBeCloseTo(-10, 10);
+		expect(latlng.lng).toBeCloseTo(-178, 10);
+	});
+
+	test('finds zones, with the exceptions of Norway and Svalbard', () => {
+		expect(utmZone(new LatLng(40, -73.5))).toBe(18);
+		expect(utmZone(new LatLng(60, 5))).toBe(32);
+		expect(utmZone(new LatLng(78, 15))).toBe(33);
+		expect(utmZone(new LatLng(0, 180))).toBe(1);
+	});
+
+	test('codes the CRSs of the zones', () => {
+		expect(utmCRS(18).code).toBe('EPSG:32618');
+		expect(utmCRS(5, true).code).toBe('EPSG:32705');
+	});
+});
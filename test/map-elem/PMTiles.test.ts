@@ -0,0 +1,181 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { Point } from '../../src/geom';
+import { PMTiles, zxyToTileId } from '../../src/map-elem/tile/PMTiles';
+
+// The fixture is a hand-written, uncompressed archive of zoom levels 0 to 2. Its root
+// directory has the tile of zoom level 0 ('tile-0'), a run of the 4 tiles of zoom level 1
+// (all 'ocean!') and a leaf directory for zoom level 2, which has tile IDs 5 ('tile-a'),
+// 7 and 8 (a run of 'tile-b') and 10 ('tile-c').
+const archive = readFileSync(resolve(__dirname, '../fixtures/archive.pmtiles'));
+
+// Answers the requests for the archive, with partial content unless `ignoreRange` is set
+function mockFetch(ignoreRange = false) {
+	return vi.fn((_url: string, init: RequestInit) => {
+		const range = /^bytes=(\d+)-(\d+)$/.exec(new Headers(init.headers).get('Range') || '');
+
+		if (ignoreRange || !range) {
+			return Promise.resolve(new Response(archive, { status: 200 }));
+		}
+
+		const data = archive.subarray(Number(range[1]), Number(range[2]) + 1);
+
+		return Promise.resolve(new Response(data, { status: 206 }));
+	});
+}
+
+// Returns the coordinates of the tile with the given ID at zoom level 2
+function tileOfId(id: number): Point {
+	for (let x = 0; x < 4; x++) {
+		for (let y = 0; y < 4; y++) {
+			if (zxyToTileId(2, x, y) === id) {
+				const coords = new Point(x, y);
+				coords.z = 2;
+				return coords;
+			}
+		}
+	}
+	throw new Error(`No tile with ID ${id}`);
+}
+
+function tileAt(x: number, y: number, z: number): Point {
+	const coords = new Point(x, y);
+	coords.z = z;
+	return coords;
+}
+
+async function text(blob: Blob | undefined): Promise<string | undefined> {
+	return blob && new TextDecoder().decode(await blob.arrayBuffer());
+}
+
+describe('zxyToTileId', () => {
+	test('numbers the tiles along a Hilbert curve, zoom level by zoom level', () => {
+		expect(zxyToTileId(0, 0, 0)).toBe(0);
+		expect(zxyToTileId(1, 0, 0)).toBe(1);
+		expect(zxyToTileId(1, 0, 1)).toBe(2);
+		expect(zxyToTileId(1, 1, 1)).toBe(3);
+		expect(zxyToTileId(1, 1, 0)).toBe(4);
+		expect(zxyToTileId(2, 0, 0)).toBe(5);
+		expect(zxyToTileId(3, 0, 0)).toBe(21);
+		expect(zxyToTileId(12, 3423, 1763)).toBe(19078479);
+	});
+
+	test('gives the tiles of a zoom level consecutive IDs', () => {
+		const ids = [];
+
+		for (let x = 0; x < 8; x++) {
+			for (let y = 0; y < 8; y++) {
+				ids.push(zxyToTileId(3, x, y));
+			}
+		}
+
+		expect(ids.sort((a, b) => a - b)).toEqual(Array.from({ length: 64 }, (_, i) => 21 + i));
+	});
+
+	test('rejects tiles outside of the zoom level', () => {
+		expect(() => zxyToTileId(1, 2, 0)).toThrow();
+		expect(() => zxyToTileId(1, 0, -1)).toThrow();
+		expect(() => zxyToTileId(27, 0, 0)).toThrow();
+	});
+});
+
+describe('PMTiles', () => {
+	let fetch: ReturnType<typeof mockFetch>;
+
+	beforeEach(() => {
+		fetch = mockFetch();
+		vi.stubGlobal('fetch', fetch);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	test('reads the header', async () => {
+		const header = await new PMTiles('archive.pmtiles').getHeader();
+
+		expect(header).toMatchObject({
+			rootDirectoryOffset: 127,
+			internalCompression: 'none',
+			tileCompression: 'none',
+			tileType: 'mvt',
+			minZoom: 0,
+			maxZoom: 2,
+			centerZoom: 1,
+		});
+		expect(header.bounds.getSouthWest()).toMatchObject({ lat: -5, lng: -10 });
+		expect(header.bounds.getNorthEast()).toMatchObject({ lat: 5, lng: 10 });
+		expect(header.center).toMatchObject({ lat: 2.5, lng: 1.5 });
+		expect(header.tileDataOffset + header.tileDataLength).toBe(archive.length);
+		expect(new Headers(fetch.mock.calls[0][1].headers).get('Range')).toBe('bytes=0-16383');
+	});
+
+	test('rejects other files', async () => {
+		fetch.mockResolvedValueOnce(new Response('<html></html>'.padEnd(200), { status: 200 }));
+
+		await expect(new PMTiles('index.html').getHeader()).rejects.toThrow('Not a PMTiles archive');
+	});
+
+	test('reads the metadata', async () => {
+		expect(await new PMTiles('archive.pmtiles').getMetadata()).toEqual({
+			name: 'fixture',
+			vector_layers: [{ id: 'shapes' }],
+		});
+	});
+
+	test('reads tiles of the root directory, including runs of tiles', async () => {
+		const pmtiles = new PMTiles('archive.pmtiles');
+
+		expect(await text(await pmtiles.getTile(tileAt(0, 0, 0)))).toBe('tile-0');
+
+		for (const [x, y] of [[0, 0], [0, 1], [1, 1], [1, 0]]) {
+			const tile = await pmtiles.getTile(tileAt(x, y, 1));
+
+			expect(tile!.type).toBe('application/vnd.mapbox-vector-tile');
+			expect(await text(tile)).toBe('ocean!');
+		}
+	});
+
+	test('reads tiles of leaf directories', async () => {
+		const pmtiles = new PMTiles('archive.pmtiles');
+
+		expect(await text(await pmtiles.getTile(tileOfId(5)))).toBe('tile-a');
+		expect(await text(await pmtiles.getTile(tileOfId(7)))).toBe('tile-b');
+		expect(await text(await pmtiles.getTile(tileOfId(8)))).toBe('tile-b');
+		expect(await text(await pmtiles.getTile(tileOfId(10)))).toBe('tile-c');
+
+		// The header and root directory, the leaf directory (once) and the 4 tiles
+		expect(fetch).toHaveBeenCalledTimes(6);
+	});
+
+	test('has no tiles outside of its runs and zoom levels', async () => {
+		const pmtiles = new PMTiles('archive.pmtiles');
+
+		expect(await pmtiles.getTile(tileOfId(6))).toBeUndefined();
+		expect(await pmtiles.getTile(tileOfId(9))).toBeUndefined();
+		expect(await pmtiles.getTile(tileOfId(20))).toBeUndefined();
+		expect(await pmtiles.getTile(tileAt(0, 0, 3))).toBeUndefined();
+	});
+
+	test('keeps the whole archive if the server ignores ranges', async () => {
+		fetch = mockFetch(true);
+		vi.stubGlobal('fetch', fetch);
+
+		const pmtiles = new PMTiles('archive.pmtiles');
+
+		expect((await pmtiles.getHeader()).maxZoom).toBe(2);
+		expect(await text(await pmtiles.getTile(tileAt(1, 0, 1)))).toBe('ocean!');
+		expect(await text(await pmtiles.getTile(tileOfId(10)))).toBe('tile-c');
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	test('fails on other responses, and tries again later', async () => {
+		fetch.mockResolvedValueOnce(new Response('', { status: 404 }));
+
+		const pmtiles = new PMTiles('archive.pmtiles');
+
+		await expect(pmtiles.getHeader()).rejects.toThrow('status 404');
+		expect((await pmtiles.getHeader()).maxZoom).toBe(2);
+	});
+});
@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'vitest';
+import { Browser } from '../../src/core';
+import { LatLng } from '../../src/geog';
+import { Point } from '../../src/geom';
+import type { Map } from '../../src/map';
+import { VectorTileLayer } from '../../src/map-elem/tile/VectorTileLayer';
+import type { VectorTileFeature } from '../../src/map-elem/tile/vector-tile-decoder';
+
+const tileZoom = 10;
+
+const defaultStyle = {
+	stroke: true,
+	color: '#3388ff',
+	weight: 4,
+	opacity: 1,
+	lineCap: 'round' as const,
+	lineJoin: 'round' as const,
+	dashArray: undefined,
+	fill: true,
+	fillColor: undefined,
+	fillOpacity: 0.2,
+	radius: 4,
+};
+
+// A layer showing a single tile at (0, 0) with the given features, with a fake map that
+// projects a LatLng(y, x) to the pixel (x, y) at the tile zoom
+function layerWith(mapZoom: number, features: VectorTileFeature[]): VectorTileLayer {
+	const
+		layer = new VectorTileLayer('{z}/{x}/{y}.pbf'),
+		el = document.createElement('canvas'),
+		coords = new Point(0, 0);
+
+	coords.z = tileZoom;
+
+	layer._map = {
+		project: (latlng: LatLng) => new Point(latlng.lng, latlng.lat),
+		getZoomScale: (zoom: number) => 2 ** (zoom - mapZoom),
+	} as unknown as Map;
+	layer._tileZoom = tileZoom;
+	layer._tiles[layer._tileCoordsToKey(coords)] = {
+		el, coords, current: true, requested: 0, loaded: 0, active: true, retain: false,
+	};
+	layer._drawn.set(el, features.map(feature => ({
+		layerName: 'test',
+		feature,
+		style: { ...defaultStyle, ...feature.properties },
+		scale: 1,
+	})));
+
+	return layer;
+}
+
+function feature(type: VectorTileFeature['type'], coords: [number, number][], properties = {}): VectorTileFeature {
+	return { id: undefined, type, properties, geometry: [coords.map(([x, y]) => new Point(x, y))] };
+}
+
+// The tolerance around features, in screen pixels
+const tolerance = Browser.touch ? 10 : 3;
+
+describe('VectorTileLayer._hitTest', () => {
+	test('hits points within their radius plus the tolerance, in tile pixels', () => {
+		for (const mapZoom of [tileZoom - 1, tileZoom, tileZoom + 1.5]) {
+			const
+				layer = layerWith(mapZoom, [feature('Point', [[100, 100]])]),
+				reach = 4 + tolerance * 2 ** (tileZoom - mapZoom);
+
+			expect(layer._hitTest(new LatLng(100, 100 + reach - 0.01))).toBeDefined();
+			expect(layer._hitTest(new LatLng(100, 100 + reach + 0.01))).toBeUndefined();
+		}
+	});
+
+	test('hits lines within half their weight plus the tolerance, in tile pixels', () => {
+		for (const mapZoom of [tileZoom - 1, tileZoom, tileZoom + 1.5]) {
+			const
+				layer = layerWith(mapZoom, [feature('LineString', [[50, 100], [150, 100]])]),
+				reach = 2 + tolerance * 2 ** (tileZoom - mapZoom);
+
+			expect(layer._hitTest(new LatLng(100 + reach - 0.01, 100))).toBeDefined();
+			expect(layer._hitTest(new LatLng(100 + reach + 0.01, 100))).toBeUndefined();
+		}
+	});
+
+	test('ignores the weight of unstroked lines', () => {
+		const layer = layerWith(tileZoom + 1, [feature('LineString', [[50, 100], [150, 100]], { stroke: false })]);
+
+		expect(layer._hitTest(new LatLng(100 + tolerance / 2 - 0.01, 100))).toBeDefined();
+		expect(layer._hitTest(new LatLng(100 + tolerance / 2 + 0.01, 100))).toBeUndefined();
+	});
+
+	test('returns the topmost of overlapping features', () => {
+		const
+			below = feature('Polygon', [[0, 0], [200, 0], [200, 200], [0, 200]]),
+			above = feature('Point', [[100, 100]]),
+			layer = layerWith(tileZoom, [below, above]);
+
+		expect(layer._hitTest(new LatLng(100, 100))?.feature).toBe(above);
+		expect(layer._hitTest(new LatLng(150, 150))?.feature).toBe(below);
+		expect(layer._hitTest(new LatLng(300, 300))).toBeUndefined();
+	});
+});
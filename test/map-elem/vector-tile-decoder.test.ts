@@ -0,0 +1,67 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { describe, expect, test } from 'vitest';
+import { Point } from '../../src/geom';
+import { decodeVectorTile } from '../../src/map-elem/tile/vector-tile-decoder';
+
+// The fixtures are hand-encoded tiles:
+// - shapes.pbf: a 'shapes' layer with a point, a multi-point, a line and a square polygon
+//   with a square hole, then an 'empty' layer with an extent of 512
+// - values.pbf: a 'values' layer with a single point, with a property of each value type
+function fixture(name: string): Uint8Array {
+	return readFileSync(resolve(__dirname, '../fixtures', name));
+}
+
+function points(...coords: [number, number][]): Point[] {
+	return coords.map(([x, y]) => new Point(x, y));
+}
+
+describe('decodeVectorTile', () => {
+	test('decodes layers in order', () => {
+		const { layers } = decodeVectorTile(fixture('shapes.pbf'));
+
+		expect(layers.map(({ name, version, extent }) => ({ name, version, extent }))).toEqual([
+			{ name: 'shapes', version: 2, extent: 4096 },
+			{ name: 'empty', version: 2, extent: 512 },
+		]);
+		expect(layers[1].features).toEqual([]);
+	});
+
+	test('decodes geometries', () => {
+		const [{ features }] = decodeVectorTile(fixture('shapes.pbf')).layers;
+
+		expect(features.map(({ id, type, geometry }) => ({ id, type, geometry }))).toEqual([
+			{ id: 1, type: 'Point', geometry: [points([25, 17])] },
+			{ id: 2, type: 'Point', geometry: [points([5, 7]), points([8, 9])] },
+			{ id: 3, type: 'LineString', geometry: [points([2, 2], [2, 10], [10, 10])] },
+			{
+				id: 4,
+				type: 'Polygon',
+				geometry: [
+					points([0, 0], [10, 0], [10, 10], [0, 10]),
+					points([2, 2], [2, 8], [8, 8], [8, 2]),
+				],
+			},
+		]);
+	});
+
+	test('decodes all property value types', () => {
+		const [feature] = decodeVectorTile(fixture('values.pbf')).layers[0].features;
+
+		expect(feature.id).toBeUndefined();
+		expect(feature.geometry).toEqual([points([100, 200])]);
+		expect(feature.properties).toEqual({
+			string: 'Lac Léman',
+			float: 1.5,
+			double: 12.25,
+			int: -42,
+			uint: 7,
+			sint: -3,
+			bool: true,
+		});
+	});
+
+	test('throws on truncated data', () => {
+		expect(() => decodeVectorTile(fixture('shapes.pbf').subarray(0, 40))).toThrow();
+	});
+});
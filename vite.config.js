@@ -27,4 +27,8 @@ export default defineConfig({
             },
         },
     },
+    test: {
+        // The library expects a browser, even where it only computes
+        environment: 'happy-dom',
+    },
 });